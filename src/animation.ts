@@ -0,0 +1,245 @@
+import * as zlib from 'zlib';
+import { createCanvas } from 'canvas';
+import { crc32 } from './utils/crc32';
+import { encodeWebp } from './webp';
+
+// One captured frame: RGBA pixels, all frames the same size
+export type AnimationFrame = Uint8ClampedArray;
+
+/**
+ * Encode frames as an animated PNG that loops forever
+ * @param frames RGBA frames
+ * @param delayFrames Display time of each frame, in 1/60 s
+ */
+export function encodeApng(frames: AnimationFrame[], width: number, height: number, delayFrames: number): Buffer {
+  const chunks: Buffer[] = [Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])];
+  const chunk = (type: string, data: Buffer) => {
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+    const out = Buffer.alloc(body.length + 8);
+    out.writeUInt32BE(data.length, 0);
+    body.copy(out, 4);
+    out.writeUInt32BE(crc32(body), body.length + 4);
+    chunks.push(out);
+  };
+
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // bit depth
+  ihdr[9] = 6; // RGBA
+  chunk('IHDR', ihdr);
+
+  const actl = Buffer.alloc(8);
+  actl.writeUInt32BE(frames.length, 0);
+  actl.writeUInt32BE(0, 4); // loop forever
+  chunk('acTL', actl);
+
+  let sequence = 0;
+  frames.forEach((frame, i) => {
+    const fctl = Buffer.alloc(26);
+    fctl.writeUInt32BE(sequence++, 0);
+    fctl.writeUInt32BE(width, 4);
+    fctl.writeUInt32BE(height, 8);
+    fctl.writeUInt16BE(delayFrames, 20);
+    fctl.writeUInt16BE(60, 22);
+    // x/y offset, dispose_op and blend_op (source) stay 0
+    chunk('fcTL', fctl);
+
+    // Filter type 0 (none) before every row
+    const raw = Buffer.alloc((width * 4 + 1) * height);
+    for (let y = 0; y < height; y++) {
+      Buffer.from(frame.buffer, frame.byteOffset + y * width * 4, width * 4).copy(raw, y * (width * 4 + 1) + 1);
+    }
+    const compressed = zlib.deflateSync(raw);
+
+    if (i === 0) {
+      chunk('IDAT', compressed);
+    } else {
+      const seq = Buffer.alloc(4);
+      seq.writeUInt32BE(sequence++, 0);
+      chunk('fdAT', Buffer.concat([seq, compressed]));
+    }
+  });
+
+  chunk('IEND', Buffer.alloc(0));
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Build a palette of at most 256 colors shared by all frames. Colors are
+ * kept exact when possible, otherwise channels lose low bits until they fit.
+ * @returns Palette as RGB triplets and each frame as palette indices
+ */
+function quantize(frames: AnimationFrame[]): { palette: number[]; indexed: Uint8Array[] } {
+  for (let shift = 0; ; shift++) {
+    const mask = (0xFF << shift) & 0xFF;
+    const lookup = new Map<number, number>();
+    let fits = true;
+
+    for (const frame of frames) {
+      for (let i = 0; i < frame.length && fits; i += 4) {
+        const key = ((frame[i] & mask) << 16) | ((frame[i + 1] & mask) << 8) | (frame[i + 2] & mask);
+        if (!lookup.has(key)) {
+          lookup.set(key, lookup.size);
+          fits = lookup.size <= 256;
+        }
+      }
+    }
+    if (!fits) continue;
+
+    // Center reduced channels in the range they stand for
+    const half = shift > 0 ? 1 << (shift - 1) : 0;
+    const palette: number[] = [];
+    for (const key of lookup.keys()) {
+      palette.push((key >> 16) | half, ((key >> 8) & 0xFF) | half, (key & 0xFF) | half);
+    }
+
+    const indexed = frames.map(frame => {
+      const out = new Uint8Array(frame.length / 4);
+      for (let i = 0, p = 0; i < frame.length; i += 4, p++) {
+        out[p] = lookup.get(((frame[i] & mask) << 16) | ((frame[i + 1] & mask) << 8) | (frame[i + 2] & mask))!;
+      }
+      return out;
+    });
+    return { palette, indexed };
+  }
+}
+
+/**
+ * GIF LZW compression of one frame's palette indices, packed into sub-blocks
+ */
+function lzwEncode(indices: Uint8Array, minCodeSize: number): Buffer {
+  const bytes: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  const emit = (code: number, size: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += size;
+    while (bitCount >= 8) {
+      bytes.push(bitBuffer & 0xFF);
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  const clearCode = 1 << minCodeSize;
+  const eoiCode = clearCode + 1;
+  let nextCode = eoiCode + 1;
+  let codeSize = minCodeSize + 1;
+  let table = new Map<number, number>();
+
+  emit(clearCode, codeSize);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix, codeSize);
+    if (nextCode === 4096) {
+      emit(clearCode, codeSize);
+      table = new Map();
+      nextCode = eoiCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= (1 << codeSize)) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = indices[i];
+  }
+  emit(prefix, codeSize);
+  emit(eoiCode, codeSize);
+  if (bitCount > 0) bytes.push(bitBuffer & 0xFF);
+
+  // Sub-blocks of up to 255 bytes, then a block terminator
+  const blocks: number[] = [];
+  for (let i = 0; i < bytes.length; i += 255) {
+    const block = bytes.slice(i, i + 255);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return Buffer.from(blocks);
+}
+
+/**
+ * Encode frames as an animated GIF that loops forever, with one global
+ * palette (colors are reduced if the frames use more than 256)
+ * @param frames RGBA frames (alpha is ignored)
+ * @param delayFrames Display time of each frame, in 1/60 s
+ */
+export function encodeGif(frames: AnimationFrame[], width: number, height: number, delayFrames: number): Buffer {
+  const { palette, indexed } = quantize(frames);
+
+  // The color table size is a power of two, at least 4 entries
+  let tableBits = 2;
+  while ((1 << tableBits) < palette.length / 3) tableBits++;
+  const table = Buffer.alloc((1 << tableBits) * 3);
+  Buffer.from(palette).copy(table);
+
+  const header = Buffer.alloc(13);
+  header.write('GIF89a', 0, 'ascii');
+  header.writeUInt16LE(width, 6);
+  header.writeUInt16LE(height, 8);
+  header[10] = 0x80 | 0x70 | (tableBits - 1); // global table, 8-bit color resolution
+  const parts: Buffer[] = [header, table];
+
+  // NETSCAPE2.0 extension: loop forever
+  parts.push(Buffer.from([0x21, 0xFF, 0x0B, ...Buffer.from('NETSCAPE2.0', 'ascii'), 0x03, 0x01, 0x00, 0x00, 0x00]));
+
+  // GIF delays are in 1/100 s; carry the rounding error so the total time stays right
+  let elapsed = 0;
+  indexed.forEach(indices => {
+    const delay = Math.round((elapsed + delayFrames) * 100 / 60) - Math.round(elapsed * 100 / 60);
+    elapsed += delayFrames;
+
+    const gce = Buffer.from([0x21, 0xF9, 0x04, 0x04, delay & 0xFF, delay >> 8, 0x00, 0x00]);
+    const descriptor = Buffer.alloc(10);
+    descriptor[0] = 0x2C;
+    descriptor.writeUInt16LE(width, 5);
+    descriptor.writeUInt16LE(height, 7);
+    parts.push(gce, descriptor, Buffer.from([tableBits]), lzwEncode(indices, tableBits));
+  });
+
+  parts.push(Buffer.from([0x3B]));
+  return Buffer.concat(parts);
+}
+
+/**
+ * Lay frames out left to right, top to bottom in one static image
+ * @param frames RGBA frames
+ * @param columns Frames per row (default: a roughly square grid)
+ * @param format Output format
+ * @param quality JPEG quality, 1-100
+ */
+export function encodeSpriteSheet(
+  frames: AnimationFrame[],
+  width: number,
+  height: number,
+  columns?: number,
+  format: 'png' | 'jpeg' | 'webp' = 'png',
+  quality: number = 80
+): { data: Buffer; width: number; height: number } {
+  const cols = Math.max(1, Math.min(columns ?? Math.ceil(Math.sqrt(frames.length)), frames.length));
+  const rows = Math.ceil(frames.length / cols);
+  const sheet = createCanvas(cols * width, rows * height);
+  const ctx = sheet.getContext('2d');
+
+  frames.forEach((frame, i) => {
+    const imageData = ctx.createImageData(width, height);
+    imageData.data.set(frame);
+    ctx.putImageData(imageData, (i % cols) * width, Math.floor(i / cols) * height);
+  });
+
+  let data: Buffer;
+  if (format === 'jpeg') {
+    data = sheet.toBuffer('image/jpeg', { quality: quality / 100 });
+  } else if (format === 'webp') {
+    data = encodeWebp(ctx.getImageData(0, 0, sheet.width, sheet.height).data, sheet.width, sheet.height);
+  } else {
+    data = sheet.toBuffer('image/png');
+  }
+  return { data, width: sheet.width, height: sheet.height };
+}
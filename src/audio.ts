@@ -0,0 +1,103 @@
+// The DSP produces 534 stereo samples per 60 Hz frame
+export const SAMPLES_PER_FRAME = 534;
+export const SAMPLE_RATE = SAMPLES_PER_FRAME * 60;
+
+export interface AudioAnalysis {
+  durationSeconds: number;
+  rmsDb: number;             // whole recording, dBFS
+  peakDb: number;
+  silent: boolean;           // no frame above the silence threshold
+  silenceRatio: number;      // fraction of frames below the threshold
+  soundRegions: Array<{ startFrame: number; endFrame: number }>;
+  rmsDbPerSecond: number[];
+}
+
+// dBFS rounded to 0.1, floored at -100 so digital silence stays a number in JSON
+function toDb(value: number): number {
+  return value > 0 ? Math.max(-100, Math.round(20 * Math.log10(value) * 10) / 10) : -100;
+}
+
+/**
+ * Encode stereo float samples (-1 to 1) as a 16-bit PCM WAV file
+ */
+export function encodeWav(left: Float32Array, right: Float32Array, sampleRate: number = SAMPLE_RATE): Buffer {
+  const dataLength = left.length * 4;
+  const wav = Buffer.alloc(44 + dataLength);
+
+  wav.write('RIFF', 0, 'ascii');
+  wav.writeUInt32LE(36 + dataLength, 4);
+  wav.write('WAVE', 8, 'ascii');
+  wav.write('fmt ', 12, 'ascii');
+  wav.writeUInt32LE(16, 16);             // fmt chunk size
+  wav.writeUInt16LE(1, 20);              // PCM
+  wav.writeUInt16LE(2, 22);              // channels
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 4, 28); // byte rate
+  wav.writeUInt16LE(4, 32);              // block align
+  wav.writeUInt16LE(16, 34);             // bits per sample
+  wav.write('data', 36, 'ascii');
+  wav.writeUInt32LE(dataLength, 40);
+
+  for (let i = 0; i < left.length; i++) {
+    wav.writeInt16LE(Math.round(Math.max(-1, Math.min(1, left[i])) * 0x7FFF), 44 + i * 4);
+    wav.writeInt16LE(Math.round(Math.max(-1, Math.min(1, right[i])) * 0x7FFF), 46 + i * 4);
+  }
+  return wav;
+}
+
+/**
+ * Measure loudness and find where sound plays
+ * @param silenceDb Frames quieter than this (RMS, dBFS) count as silence
+ * @param minGapFrames Sound regions separated by less silence than this are merged
+ */
+export function analyzeAudio(
+  left: Float32Array,
+  right: Float32Array,
+  silenceDb: number = -50,
+  minGapFrames: number = 6
+): AudioAnalysis {
+  const frameCount = Math.floor(left.length / SAMPLES_PER_FRAME);
+  const threshold = Math.pow(10, silenceDb / 20);
+
+  let totalSquares = 0;
+  let peak = 0;
+  let silentFrames = 0;
+  const soundRegions: Array<{ startFrame: number; endFrame: number }> = [];
+  const secondSquares: number[] = [];
+
+  for (let f = 0; f < frameCount; f++) {
+    let squares = 0;
+    for (let i = f * SAMPLES_PER_FRAME; i < (f + 1) * SAMPLES_PER_FRAME; i++) {
+      squares += left[i] * left[i] + right[i] * right[i];
+      peak = Math.max(peak, Math.abs(left[i]), Math.abs(right[i]));
+    }
+    totalSquares += squares;
+    const second = Math.floor(f / 60);
+    secondSquares[second] = (secondSquares[second] ?? 0) + squares;
+
+    const rms = Math.sqrt(squares / (SAMPLES_PER_FRAME * 2));
+    if (rms < threshold) {
+      silentFrames++;
+      continue;
+    }
+    const last = soundRegions[soundRegions.length - 1];
+    if (last && f - last.endFrame <= minGapFrames) {
+      last.endFrame = f;
+    } else {
+      soundRegions.push({ startFrame: f, endFrame: f });
+    }
+  }
+
+  return {
+    durationSeconds: Math.round(frameCount / 60 * 100) / 100,
+    rmsDb: toDb(Math.sqrt(totalSquares / Math.max(1, frameCount * SAMPLES_PER_FRAME * 2))),
+    peakDb: toDb(peak),
+    silent: soundRegions.length === 0,
+    silenceRatio: frameCount > 0 ? Math.round(silentFrames / frameCount * 1000) / 1000 : 1,
+    soundRegions,
+    rmsDbPerSecond: secondSquares.map((squares, second) => {
+      const frames = Math.min(60, frameCount - second * 60);
+      return toDb(Math.sqrt(squares / (frames * SAMPLES_PER_FRAME * 2)));
+    })
+  };
+}
@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './utils/logger';
+import { romBaseName } from './romFile';
+
+export type CheatType = 'game_genie' | 'par';
+
+export interface Cheat {
+  code: string;
+  type: CheatType;
+  address: number;     // 24-bit CPU bus address
+  value: number;
+  ramAddress?: number; // WRAM offset (0x0000-0x1FFFF) for PAR codes
+  description?: string;
+}
+
+// Game Genie letters in order of the hex digit they stand for
+const GENIE_HEX = 'DF4709156BC8A23E';
+
+/**
+ * Map a bus address to a WRAM offset, or undefined if it isn't WRAM
+ */
+function busToWram(address: number): number | undefined {
+  const bank = address >> 16;
+  const adr = address & 0xFFFF;
+  if (bank === 0x7E || bank === 0x7F) {
+    return ((bank & 1) << 16) | adr;
+  }
+  if (adr < 0x2000 && (bank < 0x40 || (bank >= 0x80 && bank < 0xC0))) {
+    return adr;
+  }
+  return undefined;
+}
+
+/**
+ * Decode a Game Genie (XXXX-XXXX) or Pro Action Replay (AAAAAAVV) code
+ * @param code Cheat code as typed by the user
+ * @returns Decoded cheat
+ */
+export function parseCheatCode(code: string): Cheat {
+  const trimmed = code.trim().toUpperCase();
+
+  // Game Genie: 8 letters from the genie alphabet, dash after the fourth
+  const genie = /^([0-9A-F]{4})-([0-9A-F]{4})$/.exec(trimmed);
+  if (genie) {
+    const hex = (genie[1] + genie[2])
+      .split('')
+      .map(c => GENIE_HEX.indexOf(c).toString(16))
+      .join('');
+    const raw = parseInt(hex, 16);
+    const value = (raw >>> 24) & 0xFF;
+    const scrambled = raw & 0xFFFFFF;
+
+    // Unscramble ijklqrst opabcduv wxefghmn -> abcdefgh ijklmnop qrstuvwx
+    const address =
+      ((scrambled & 0x003C00) << 10) +
+      ((scrambled & 0x00003C) << 14) +
+      ((scrambled & 0xF00000) >> 8) +
+      ((scrambled & 0x000003) << 10) +
+      ((scrambled & 0x00C000) >> 6) +
+      ((scrambled & 0x0F0000) >> 12) +
+      ((scrambled & 0x0003C0) >> 6);
+
+    return { code: trimmed, type: 'game_genie', address, value };
+  }
+
+  // Pro Action Replay: 6 address digits then 2 value digits
+  const par = /^([0-9A-F]{6}):?([0-9A-F]{2})$/.exec(trimmed);
+  if (par) {
+    const address = parseInt(par[1], 16);
+    const ramAddress = busToWram(address);
+    if (ramAddress === undefined) {
+      throw new Error(`Pro Action Replay code ${trimmed} does not target WRAM`);
+    }
+    return {
+      code: `${par[1]}${par[2]}`,
+      type: 'par',
+      address,
+      value: parseInt(par[2], 16),
+      ramAddress
+    };
+  }
+
+  throw new Error(`Unrecognized cheat code: ${code}. Expected Game Genie (XXXX-XXXX) or Pro Action Replay (7E1234AB)`);
+}
+
+/**
+ * Cheat lists persisted per ROM as <baseDir>/<rom basename>.json
+ */
+export class CheatStore {
+  private baseDir: string;
+
+  constructor(baseDir?: string) {
+    this.baseDir = baseDir || process.env.CHEATS_DIR || path.join(process.cwd(), 'cheats');
+  }
+
+  private cheatFile(romPath: string): string {
+    const romName = romBaseName(romPath);
+    return path.join(this.baseDir, romName.replace(/[^\w\-. ()[\]]/g, '_') + '.json');
+  }
+
+  /**
+   * Load the cheats saved for a ROM
+   */
+  load(romPath: string): Cheat[] {
+    const file = this.cheatFile(romPath);
+    if (!fs.existsSync(file)) {
+      return [];
+    }
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf-8')) as Cheat[];
+    } catch (error) {
+      log.warn(`Ignoring unreadable cheat file: ${file}`, String(error));
+      return [];
+    }
+  }
+
+  /**
+   * Save the cheats for a ROM
+   */
+  save(romPath: string, cheats: Cheat[]): void {
+    if (!fs.existsSync(this.baseDir)) {
+      fs.mkdirSync(this.baseDir, { recursive: true });
+    }
+    fs.writeFileSync(this.cheatFile(romPath), JSON.stringify(cheats, null, 2));
+  }
+}
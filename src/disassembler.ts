@@ -0,0 +1,217 @@
+// 65816 disassembler working on any bus reader
+
+type AddressingMode =
+  | 'imp' | 'acc' | 'imm8' | 'immM' | 'immX'
+  | 'dp' | 'dpx' | 'dpy' | 'idp' | 'idx' | 'idy' | 'idl' | 'ily'
+  | 'sr' | 'isy'
+  | 'abs' | 'abx' | 'aby' | 'abl' | 'alx' | 'ind' | 'iax' | 'ial'
+  | 'rel' | 'rll' | 'bm';
+
+const MNEMONICS: string[] = [
+  'BRK', 'ORA', 'COP', 'ORA', 'TSB', 'ORA', 'ASL', 'ORA', 'PHP', 'ORA', 'ASL', 'PHD', 'TSB', 'ORA', 'ASL', 'ORA',
+  'BPL', 'ORA', 'ORA', 'ORA', 'TRB', 'ORA', 'ASL', 'ORA', 'CLC', 'ORA', 'INC', 'TCS', 'TRB', 'ORA', 'ASL', 'ORA',
+  'JSR', 'AND', 'JSL', 'AND', 'BIT', 'AND', 'ROL', 'AND', 'PLP', 'AND', 'ROL', 'PLD', 'BIT', 'AND', 'ROL', 'AND',
+  'BMI', 'AND', 'AND', 'AND', 'BIT', 'AND', 'ROL', 'AND', 'SEC', 'AND', 'DEC', 'TSC', 'BIT', 'AND', 'ROL', 'AND',
+  'RTI', 'EOR', 'WDM', 'EOR', 'MVP', 'EOR', 'LSR', 'EOR', 'PHA', 'EOR', 'LSR', 'PHK', 'JMP', 'EOR', 'LSR', 'EOR',
+  'BVC', 'EOR', 'EOR', 'EOR', 'MVN', 'EOR', 'LSR', 'EOR', 'CLI', 'EOR', 'PHY', 'TCD', 'JML', 'EOR', 'LSR', 'EOR',
+  'RTS', 'ADC', 'PER', 'ADC', 'STZ', 'ADC', 'ROR', 'ADC', 'PLA', 'ADC', 'ROR', 'RTL', 'JMP', 'ADC', 'ROR', 'ADC',
+  'BVS', 'ADC', 'ADC', 'ADC', 'STZ', 'ADC', 'ROR', 'ADC', 'SEI', 'ADC', 'PLY', 'TDC', 'JMP', 'ADC', 'ROR', 'ADC',
+  'BRA', 'STA', 'BRL', 'STA', 'STY', 'STA', 'STX', 'STA', 'DEY', 'BIT', 'TXA', 'PHB', 'STY', 'STA', 'STX', 'STA',
+  'BCC', 'STA', 'STA', 'STA', 'STY', 'STA', 'STX', 'STA', 'TYA', 'STA', 'TXS', 'TXY', 'STZ', 'STA', 'STZ', 'STA',
+  'LDY', 'LDA', 'LDX', 'LDA', 'LDY', 'LDA', 'LDX', 'LDA', 'TAY', 'LDA', 'TAX', 'PLB', 'LDY', 'LDA', 'LDX', 'LDA',
+  'BCS', 'LDA', 'LDA', 'LDA', 'LDY', 'LDA', 'LDX', 'LDA', 'CLV', 'LDA', 'TSX', 'TYX', 'LDY', 'LDA', 'LDX', 'LDA',
+  'CPY', 'CMP', 'REP', 'CMP', 'CPY', 'CMP', 'DEC', 'CMP', 'INY', 'CMP', 'DEX', 'WAI', 'CPY', 'CMP', 'DEC', 'CMP',
+  'BNE', 'CMP', 'CMP', 'CMP', 'PEI', 'CMP', 'DEC', 'CMP', 'CLD', 'CMP', 'PHX', 'STP', 'JML', 'CMP', 'DEC', 'CMP',
+  'CPX', 'SBC', 'SEP', 'SBC', 'CPX', 'SBC', 'INC', 'SBC', 'INX', 'SBC', 'NOP', 'XBA', 'CPX', 'SBC', 'INC', 'SBC',
+  'BEQ', 'SBC', 'SBC', 'SBC', 'PEA', 'SBC', 'INC', 'SBC', 'SED', 'SBC', 'PLX', 'XCE', 'JSR', 'SBC', 'INC', 'SBC'
+];
+
+const MODES: AddressingMode[] = [
+  'imm8', 'idx', 'imm8', 'sr',  'dp',  'dp',  'dp',  'idl', 'imp', 'immM', 'acc', 'imp', 'abs', 'abs', 'abs', 'abl',
+  'rel',  'idy', 'idp',  'isy', 'dp',  'dpx', 'dpx', 'ily', 'imp', 'aby',  'acc', 'imp', 'abs', 'abx', 'abx', 'alx',
+  'abs',  'idx', 'abl',  'sr',  'dp',  'dp',  'dp',  'idl', 'imp', 'immM', 'acc', 'imp', 'abs', 'abs', 'abs', 'abl',
+  'rel',  'idy', 'idp',  'isy', 'dpx', 'dpx', 'dpx', 'ily', 'imp', 'aby',  'acc', 'imp', 'abx', 'abx', 'abx', 'alx',
+  'imp',  'idx', 'imm8', 'sr',  'bm',  'dp',  'dp',  'idl', 'imp', 'immM', 'acc', 'imp', 'abs', 'abs', 'abs', 'abl',
+  'rel',  'idy', 'idp',  'isy', 'bm',  'dpx', 'dpx', 'ily', 'imp', 'aby',  'imp', 'imp', 'abl', 'abx', 'abx', 'alx',
+  'imp',  'idx', 'rll',  'sr',  'dp',  'dp',  'dp',  'idl', 'imp', 'immM', 'acc', 'imp', 'ind', 'abs', 'abs', 'abl',
+  'rel',  'idy', 'idp',  'isy', 'dpx', 'dpx', 'dpx', 'ily', 'imp', 'aby',  'imp', 'imp', 'iax', 'abx', 'abx', 'alx',
+  'rel',  'idx', 'rll',  'sr',  'dp',  'dp',  'dp',  'idl', 'imp', 'immM', 'imp', 'imp', 'abs', 'abs', 'abs', 'abl',
+  'rel',  'idy', 'idp',  'isy', 'dpx', 'dpx', 'dpy', 'ily', 'imp', 'aby',  'imp', 'imp', 'abs', 'abx', 'abx', 'alx',
+  'immX', 'idx', 'immX', 'sr',  'dp',  'dp',  'dp',  'idl', 'imp', 'immM', 'imp', 'imp', 'abs', 'abs', 'abs', 'abl',
+  'rel',  'idy', 'idp',  'isy', 'dpx', 'dpx', 'dpy', 'ily', 'imp', 'aby',  'imp', 'imp', 'abx', 'abx', 'aby', 'alx',
+  'immX', 'idx', 'imm8', 'sr',  'dp',  'dp',  'dp',  'idl', 'imp', 'immM', 'imp', 'imp', 'abs', 'abs', 'abs', 'abl',
+  'rel',  'idy', 'idp',  'isy', 'idp', 'dpx', 'dpx', 'ily', 'imp', 'aby',  'imp', 'imp', 'ial', 'abx', 'abx', 'alx',
+  'immX', 'idx', 'imm8', 'sr',  'dp',  'dp',  'dp',  'idl', 'imp', 'immM', 'imp', 'imp', 'abs', 'abs', 'abs', 'abl',
+  'rel',  'idy', 'idp',  'isy', 'abs', 'dpx', 'dpx', 'ily', 'imp', 'aby',  'imp', 'imp', 'iax', 'abx', 'abx', 'alx'
+];
+
+// Register width state used to size immediate operands
+export interface DisassemblerFlags {
+  m: boolean; // true = 8-bit accumulator
+  x: boolean; // true = 8-bit index registers
+  e: boolean; // emulation mode forces both to 8-bit
+}
+
+export interface DisassembledInstruction {
+  address: number; // 24-bit bus address
+  bytes: number[];
+  mnemonic: string;
+  operand: string;
+}
+
+function hex(value: number, digits: number): string {
+  return value.toString(16).toUpperCase().padStart(digits, '0');
+}
+
+function operandLength(mode: AddressingMode, flags: DisassemblerFlags): number {
+  switch (mode) {
+    case 'imp': case 'acc': return 0;
+    case 'immM': return (flags.m || flags.e) ? 1 : 2;
+    case 'immX': return (flags.x || flags.e) ? 1 : 2;
+    case 'abs': case 'abx': case 'aby': case 'ind': case 'iax':
+    case 'rll': case 'bm': return 2;
+    case 'abl': case 'alx': case 'ial': return 3;
+    default: return 1;
+  }
+}
+
+function formatOperand(mode: AddressingMode, operand: number, address: number, size: number): string {
+  const bank = address & 0xFF0000;
+  switch (mode) {
+    case 'imp': return '';
+    case 'acc': return 'A';
+    case 'imm8': return `#$${hex(operand, 2)}`;
+    case 'immM': case 'immX': return `#$${hex(operand, size === 2 ? 4 : 2)}`;
+    case 'dp': return `$${hex(operand, 2)}`;
+    case 'dpx': return `$${hex(operand, 2)},X`;
+    case 'dpy': return `$${hex(operand, 2)},Y`;
+    case 'idp': return `($${hex(operand, 2)})`;
+    case 'idx': return `($${hex(operand, 2)},X)`;
+    case 'idy': return `($${hex(operand, 2)}),Y`;
+    case 'idl': return `[$${hex(operand, 2)}]`;
+    case 'ily': return `[$${hex(operand, 2)}],Y`;
+    case 'sr': return `$${hex(operand, 2)},S`;
+    case 'isy': return `($${hex(operand, 2)},S),Y`;
+    case 'abs': return `$${hex(operand, 4)}`;
+    case 'abx': return `$${hex(operand, 4)},X`;
+    case 'aby': return `$${hex(operand, 4)},Y`;
+    case 'abl': return `$${hex(operand, 6)}`;
+    case 'alx': return `$${hex(operand, 6)},X`;
+    case 'ind': return `($${hex(operand, 4)})`;
+    case 'iax': return `($${hex(operand, 4)},X)`;
+    case 'ial': return `[$${hex(operand, 4)}]`;
+    case 'rel': {
+      const offset = operand >= 0x80 ? operand - 0x100 : operand;
+      return `$${hex((address + 2 + offset) & 0xFFFF, 4)}`;
+    }
+    case 'rll': {
+      const offset = operand >= 0x8000 ? operand - 0x10000 : operand;
+      return `$${hex(bank | ((address + 3 + offset) & 0xFFFF), 6)}`;
+    }
+    case 'bm': return `$${hex(operand >> 8, 2)},$${hex(operand & 0xFF, 2)}`;
+  }
+}
+
+/**
+ * Decode a run of instructions
+ * @param read Reads one byte from a 24-bit bus address
+ * @param start Bus address of the first instruction
+ * @param count Number of instructions to decode
+ * @param flags M/X/E flags in effect at start; updated across REP/SEP
+ */
+export function disassemble(
+  read: (address: number) => number,
+  start: number,
+  count: number,
+  flags: DisassemblerFlags
+): DisassembledInstruction[] {
+  const state = { ...flags };
+  const result: DisassembledInstruction[] = [];
+  const bank = start & 0xFF0000;
+  let pc = start & 0xFFFF;
+
+  for (let n = 0; n < count; n++) {
+    const address = bank | pc;
+    const opcode = read(address);
+    const mode = MODES[opcode];
+    const size = operandLength(mode, state);
+
+    const bytes = [opcode];
+    let operand = 0;
+    for (let i = 0; i < size; i++) {
+      const b = read(bank | ((pc + 1 + i) & 0xFFFF));
+      bytes.push(b);
+      operand |= b << (8 * i);
+    }
+
+    result.push({
+      address,
+      bytes,
+      mnemonic: MNEMONICS[opcode],
+      operand: formatOperand(mode, operand, address, size)
+    });
+
+    // Track register width changes so later immediates decode correctly
+    if (opcode === 0xC2 && !state.e) { // REP
+      if (operand & 0x20) state.m = false;
+      if (operand & 0x10) state.x = false;
+    } else if (opcode === 0xE2) { // SEP
+      if (operand & 0x20) state.m = true;
+      if (operand & 0x10) state.x = true;
+    }
+
+    pc = (pc + 1 + size) & 0xFFFF;
+  }
+
+  return result;
+}
+
+/**
+ * Find a start address that decodes cleanly up to a target address.
+ * 65816 code can't be decoded backwards exactly, so this tries increasingly
+ * close start points and takes the furthest one whose instruction stream
+ * lands exactly on the target.
+ * @returns Start address and the number of instructions before the target
+ */
+export function findStartBefore(
+  read: (address: number) => number,
+  target: number,
+  before: number,
+  flags: DisassemblerFlags
+): { start: number; count: number } {
+  const bank = target & 0xFF0000;
+  const pc = target & 0xFFFF;
+
+  for (let back = Math.min(before * 4, pc); back > 0; back--) {
+    const start = bank | (pc - back);
+    const lines = disassemble(read, start, back, flags);
+    const index = lines.findIndex(line => line.address === target);
+    if (index >= 0 && index >= before) {
+      return { start: lines[index - before].address, count: before };
+    }
+  }
+
+  // Fall back to the furthest clean sync even if it yields fewer lines
+  for (let back = Math.min(before * 4, pc); back > 0; back--) {
+    const start = bank | (pc - back);
+    const index = disassemble(read, start, back, flags).findIndex(line => line.address === target);
+    if (index >= 0) {
+      return { start, count: index };
+    }
+  }
+  return { start: target, count: 0 };
+}
+
+/**
+ * Format instructions as an assembly listing
+ * @param lines Decoded instructions
+ * @param pc Address to mark as the current program counter
+ */
+export function formatDisassembly(lines: DisassembledInstruction[], pc?: number): string {
+  return lines.map(line => {
+    const marker = line.address === pc ? '>' : ' ';
+    const addr = `${hex(line.address >> 16, 2)}:${hex(line.address & 0xFFFF, 4)}`;
+    const bytes = line.bytes.map(b => hex(b, 2)).join(' ').padEnd(12);
+    return `${marker} ${addr}  ${bytes} ${line.mnemonic}${line.operand ? ' ' + line.operand : ''}`;
+  }).join('\n');
+}
@@ -1,18 +1,46 @@
 import { SNESEmulator } from './snes';
-import { SNESButton } from './types';
+import { SNESButton, SNESPlayer, QueuedCommand, InputStep, RamRead, ScreenshotOptions } from './types';
 import { ImageContent, TextContent } from '@modelcontextprotocol/sdk/types.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import { log } from './utils/logger';
 import type { WsSync } from './wsSync';
+import { SaveStateStore, SaveStateMeta } from './saveStateStore';
+import { RamSearch, RamSearchComparison, RamSearchWidth } from './ramSearch';
+import { Cheat, CheatStore, parseCheatCode } from './cheats';
+import { disassemble, findStartBefore, formatDisassembly } from './disassembler';
+import { SramManager } from './sramManager';
+import { RamCondition, RamConditionWatcher } from './ramCondition';
+import { Movie, MovieAnchor, MovieStore, checkMovieName } from './movie';
+import { RewindBuffer } from './rewindBuffer';
+import { AnimationFrame, encodeApng, encodeGif, encodeSpriteSheet } from './animation';
+import { AudioAnalysis, SAMPLES_PER_FRAME, analyzeAudio, encodeWav } from './audio';
+import { CharacterTable, extractText, formatTileRows, readVisibleTiles } from './screenText';
+import { GameProfile, GameProfileStore, readGameState } from './gameProfile';
+import { RomDatabase, RomIdentification } from './romDatabase';
+import { romBaseName, romFileExists } from './romFile';
+import { findAutoPatch } from './romPatch';
 
 export class EmulatorService {
   private emulator: SNESEmulator;
   private wsSync?: WsSync;
-  private saveSlots: Map<number, object> = new Map();
+  private saveStateStore: SaveStateStore = new SaveStateStore();
+  private ramSearch?: RamSearch;
+  private cheatStore: CheatStore = new CheatStore();
+  private cheats: Cheat[] = [];
+  private sramManager: SramManager;
+  private movieStore: MovieStore = new MovieStore();
+  private movieRecording?: { name: string; movie: Movie; state?: object; playerSram?: Uint8Array };
+  private moviePlayback?: { frames: Array<[number, number]>; index: number };
+  private rewindBuffer: RewindBuffer;
+  private screenshotDefaults: ScreenshotOptions = {};
+  private profileStore: GameProfileStore = new GameProfileStore();
+  private romDatabase: RomDatabase = new RomDatabase();
+  private profile?: GameProfile;
+  private profileListeners: Array<(profile?: GameProfile) => void> = [];
 
   // Command queue for smooth browser playback
-  private commandQueue: Array<{ type: 'button_press' | 'wait_frames'; button?: SNESButton; durationFrames: number }> = [];
+  private commandQueue: QueuedCommand[] = [];
   private lastBroadcastedFrame: number = 0;
 
   // Performance targets (milliseconds)
@@ -20,16 +48,20 @@ export class EmulatorService {
   private readonly FAST_FRAME_TIME_ESTIMATE = 0.05; // Estimated time per fast frame (no PPU)
   private readonly SLOW_FRAME_TIME_ESTIMATE = 2.0;  // Estimated time per frame with PPU
   private readonly PPU_SYNC_INTERVAL = 60; // Run full PPU frame periodically to keep video state stable
+  private readonly MAX_CAPTURE_PIXELS = 40000000; // Total pixels held while capturing an animation
 
   constructor(emulator: SNESEmulator) {
     this.emulator = emulator;
+    this.sramManager = new SramManager(emulator);
+    this.rewindBuffer = new RewindBuffer(emulator);
+    this.emulator.setFrameHook(() => this.onFrame());
     log.info('EmulatorService initialized');
   }
 
   /**
    * Get the command queue for browser sync
    */
-  getCommandQueue(): Array<{ type: 'button_press' | 'wait_frames'; button?: SNESButton; durationFrames: number }> {
+  getCommandQueue(): QueuedCommand[] {
     return this.commandQueue;
   }
 
@@ -52,17 +84,71 @@ export class EmulatorService {
     return this.emulator.getRomPath();
   }
 
-  loadRom(romPath: string): ImageContent {
+  /**
+   * Path that names the loaded game's SRAM, cheats and save states: the
+   * patch when one is applied, so a romhack doesn't share them with its base ROM
+   */
+  private getSavePath(): string {
+    return this.emulator.getPatchPath() ?? this.emulator.getRomPath()!;
+  }
+
+  /**
+   * The loaded ROM image, unpacked and patched, as served to the browser
+   */
+  getRomImage(): Buffer | undefined {
+    return this.emulator.getRomImage();
+  }
+
+  /**
+   * Load a ROM, soft-patching it in memory when a patch is given or one with
+   * the same base name sits next to it (Game.sfc + Game.bps/.ups/.ips).
+   * An auto-detected patch that fails to apply is skipped with a warning.
+   * @param patchPath IPS, BPS or UPS patch to apply, or '' to load the ROM unpatched
+   */
+  loadRom(romPath: string, patchPath?: string): ImageContent {
     log.info(`Attempting to load ROM: ${romPath}`);
-    if (!fs.existsSync(romPath)) {
+    if (!romFileExists(romPath)) {
       log.error(`ROM file not found: ${romPath}`);
       throw new Error(`ROM file not found: ${romPath}`);
     }
+    if (patchPath && !fs.existsSync(patchPath)) {
+      throw new Error(`Patch file not found: ${patchPath}`);
+    }
+    const autoPatch = patchPath === undefined;
+    const patch = autoPatch ? findAutoPatch(romPath) : patchPath || undefined;
 
     try {
-      this.emulator.loadRom(romPath);
+      // Save the outgoing ROM's in-game progress before switching
+      this.sramManager.flush();
+
+      try {
+        this.emulator.loadRom(romPath, patch);
+      } catch (error) {
+        if (!autoPatch || !patch) {
+          throw error;
+        }
+        log.warn(`Skipping auto-detected patch ${path.basename(patch)}`, error instanceof Error ? error.message : String(error));
+        this.emulator.loadRom(romPath);
+      }
+
+      // Only once the new ROM is in; a failed load leaves the old one running
+      if (this.movieRecording) {
+        log.warn(`Discarding movie recording ${this.movieRecording.name}: ROM changed`);
+        this.movieRecording = undefined;
+      }
+      this.rewindBuffer.clear();
+      this.sramManager.attach(this.getSavePath());
+      this.ramSearch = undefined;
       log.info(`ROM loaded successfully: ${path.basename(romPath)}`);
 
+      this.cheats = this.cheatStore.load(this.getSavePath());
+      this.emulator.setCheats(this.cheats);
+      if (this.cheats.length > 0) {
+        log.info(`Applied ${this.cheats.length} saved cheat(s)`);
+      }
+
+      this.reloadGameProfile();
+
       // Advance a few frames to initialize the screen
       for (let i = 0; i < 5; i++) {
         this.emulator.doFrame();
@@ -77,37 +163,114 @@ export class EmulatorService {
     }
   }
 
-  pressButton(button: SNESButton, durationFrames: number): void {
-    log.debug(`Pressing button: ${button}`);
+  pressButton(button: SNESButton, durationFrames: number, player: SNESPlayer = 1): void {
+    log.debug(`Pressing button: ${button} (player ${player})`);
     if (!this.isRomLoaded()) {
       log.warn('Attempted to press button with no ROM loaded');
       throw new Error('No ROM loaded');
     }
-    this.emulator.pressButton(button, durationFrames);
-    this.wsSync?.broadcastButtonPress(button, durationFrames);
+    this.emulator.pressButton(button, durationFrames, player);
+    this.wsSync?.broadcastButtonPress(button, durationFrames, player);
   }
 
   /**
    * Async button press that doesn't block the server.
    * Uses time-budgeted execution and adds command to queue for smooth browser playback.
    */
-  async pressButtonAsync(button: SNESButton, durationFrames: number): Promise<void> {
-    log.debug(`Pressing button async: ${button}`);
+  async pressButtonAsync(button: SNESButton, durationFrames: number, player: SNESPlayer = 1): Promise<void> {
+    await this.pressButtonsAsync([button], durationFrames, player);
+  }
+
+  /**
+   * Async press of several buttons at once (e.g. B+RIGHT, L+R).
+   * All buttons go down on the same frame and are released together.
+   */
+  async pressButtonsAsync(buttons: SNESButton[], durationFrames: number, player: SNESPlayer = 1): Promise<void> {
+    log.debug(`Pressing buttons async: ${buttons.join('+')} (player ${player})`);
     if (!this.isRomLoaded()) {
       log.warn('Attempted to press button with no ROM loaded');
       throw new Error('No ROM loaded');
     }
 
-    const buttonNum = this.emulator.getButtonMap()[button];
+    const buttonMap = this.emulator.getButtonMap();
+    const buttonNums = buttons.map(button => buttonMap[button]);
 
     // Add command to queue for browser sync
-    this.commandQueue.push({ type: 'button_press', button, durationFrames });
-    this.wsSync?.broadcastButtonPress(button, durationFrames);
+    this.commandQueue.push({ type: 'button_press', button: buttons[0], buttons, durationFrames, player });
+    this.wsSync?.broadcastButtonsPress(buttons, durationFrames, player);
+
+    // Press the buttons
+    for (const buttonNum of buttonNums) {
+      this.emulator.setButtonPressed(buttonNum, player);
+    }
+
+    await this.runFramesAsync(durationFrames);
+
+    // Release the buttons
+    for (const buttonNum of buttonNums) {
+      this.emulator.setButtonReleased(buttonNum, player);
+    }
+  }
 
-    // Press the button
-    this.emulator.setButtonPressed(buttonNum);
+  /**
+   * Run an input timeline in one call. Each step is queued for the browser
+   * like an individual press/wait, so both emulators replay it frame-for-frame.
+   * @param steps Buttons (or none, to wait) held for a number of frames
+   * @param ramReads WRAM values to sample after each step
+   * @returns Per-step frame offsets and RAM readings
+   */
+  async runInputSequenceAsync(
+    steps: InputStep[],
+    ramReads: RamRead[] = []
+  ): Promise<Array<{ step: number; frame: number; ram?: Record<string, number> }>> {
+    log.debug(`Running input sequence of ${steps.length} steps`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to run input sequence with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+
+    const results: Array<{ step: number; frame: number; ram?: Record<string, number> }> = [];
+    let frame = 0;
+
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      if (step.buttons && step.buttons.length > 0) {
+        await this.pressButtonsAsync(Array.from(new Set(step.buttons)), step.frames, step.player ?? 1);
+      } else {
+        await this.waitFramesAsync(step.frames);
+      }
+      frame += step.frames;
 
-    // Process frames using time-budgeted execution
+      const result: { step: number; frame: number; ram?: Record<string, number> } = { step: i, frame };
+      if (ramReads.length > 0) {
+        result.ram = {};
+        for (const read of ramReads) {
+          const key = read.label ?? read.address.toString(16).padStart(6, '0');
+          result.ram[key] = read.width === 16
+            ? this.emulator.readRamWord(read.address)
+            : this.emulator.readRamByte(read.address);
+        }
+      }
+      results.push(result);
+    }
+
+    log.verbose(`Input sequence finished after ${frame} frames`);
+    return results;
+  }
+
+  /**
+   * Run frames using time-budgeted execution, yielding to the event loop
+   * between chunks so the server stays responsive.
+   * @param durationFrames Maximum number of frames to run
+   * @param shouldStop Checked after every frame; returning true stops early
+   * @param ppuInterval Render every Nth frame, starting with the first (1 = every frame)
+   * @returns Number of frames run
+   */
+  private async runFramesAsync(
+    durationFrames: number,
+    shouldStop?: () => boolean,
+    ppuInterval: number = this.PPU_SYNC_INTERVAL
+  ): Promise<number> {
     let framesProcessed = 0;
     let lastYieldTime = performance.now();
 
@@ -116,12 +279,15 @@ export class EmulatorService {
       const startTime = performance.now();
 
       while (framesProcessed < durationFrames && (performance.now() - startTime) < this.TARGET_CHUNK_TIME) {
-        if (framesProcessed % this.PPU_SYNC_INTERVAL === 0) {
+        if (framesProcessed % ppuInterval === 0) {
           this.emulator.doFrame();
         } else {
           this.emulator.doFrameFast(); // Mostly fast path, periodic full PPU sync
         }
         framesProcessed++;
+        if (shouldStop?.()) {
+          return framesProcessed;
+        }
       }
 
       // Yield control if we've been processing for a while
@@ -131,16 +297,14 @@ export class EmulatorService {
         lastYieldTime = performance.now();
       }
     }
-
-    // Release the button
-    this.emulator.setButtonReleased(buttonNum);
-
+    return framesProcessed;
   }
 
   /** Press button on server emulator only, no broadcast (for browser-originated inputs) */
-  pressButtonLocal(button: SNESButton, durationFrames: number): void {
-    if (!this.isRomLoaded()) return;
-    this.emulator.pressButton(button, durationFrames);
+  pressButtonLocal(button: SNESButton, durationFrames: number, player: SNESPlayer = 1): void {
+    // Browser input would eat into the frames of a playing movie
+    if (!this.isRomLoaded() || this.moviePlayback) return;
+    this.emulator.pressButton(button, durationFrames, player);
   }
 
   waitFrames(durationFrames: number): void {
@@ -171,45 +335,469 @@ export class EmulatorService {
     this.commandQueue.push({ type: 'wait_frames', durationFrames });
     this.wsSync?.broadcastWaitFrames(durationFrames);
 
-    // Process frames using time-budgeted execution
-    let framesProcessed = 0;
-    let lastYieldTime = performance.now();
+    await this.runFramesAsync(durationFrames);
 
-    while (framesProcessed < durationFrames) {
-      // Process frames until we hit our time budget
-      const startTime = performance.now();
+    log.verbose(`Waited ${durationFrames} frames async`);
+  }
 
-      while (framesProcessed < durationFrames && (performance.now() - startTime) < this.TARGET_CHUNK_TIME) {
-        if (framesProcessed % this.PPU_SYNC_INTERVAL === 0) {
-          this.emulator.doFrame();
-        } else {
-          this.emulator.doFrameFast(); // Mostly fast path, periodic full PPU sync
-        }
-        framesProcessed++;
+  /**
+   * Advance frames and capture every Nth one (rendered with the PPU) as an
+   * animated GIF/APNG or a static sprite-sheet grid
+   * @param durationFrames Number of frames to advance
+   * @param every Sample every Nth frame, starting with the first
+   * @param format 'gif', 'apng' or 'sheet'
+   * @param screenshot Resolution, crop and color options for each sample (format/quality apply to sheets)
+   * @param columns Sprite-sheet frames per row
+   */
+  async captureAnimationAsync(
+    durationFrames: number,
+    every: number,
+    format: 'gif' | 'apng' | 'sheet',
+    screenshot: ScreenshotOptions = {},
+    columns?: number
+  ): Promise<{ image: ImageContent; frames: number; width: number; height: number }> {
+    log.debug(`Capturing ${format} over ${durationFrames} frames, every ${every}`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to capture animation with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+
+    const options = { ...this.screenshotDefaults, ...screenshot };
+    const samples: AnimationFrame[] = [];
+    const sampleCount = Math.ceil(durationFrames / every);
+    const checkSize = (pixels: { width: number; height: number }) => {
+      if (pixels.width * pixels.height * sampleCount > this.MAX_CAPTURE_PIXELS) {
+        throw new Error(`Capture too large (${pixels.width}x${pixels.height} per frame); use native, crop or fewer frames`);
       }
+    };
 
-      // Yield control if we've been processing for a while
-      const elapsed = performance.now() - lastYieldTime;
-      if (elapsed > this.TARGET_CHUNK_TIME * 2) {
-        await new Promise(resolve => setImmediate(resolve));
-        lastYieldTime = performance.now();
+    // Size the output from the current screen before any frames run,
+    // so an oversized capture is refused without desyncing the browser
+    let { width, height } = this.emulator.getScreenPixels(options);
+    checkSize({ width, height });
+
+    this.commandQueue.push({ type: 'wait_frames', durationFrames });
+    this.wsSync?.broadcastWaitFrames(durationFrames);
+
+    let frame = 0;
+    await this.runFramesAsync(durationFrames, () => {
+      if (frame++ % every === 0) {
+        // Checked again in case the video mode changes mid-capture
+        const pixels = this.emulator.getScreenPixels(options);
+        checkSize(pixels);
+        samples.push(pixels.data);
+        width = pixels.width;
+        height = pixels.height;
       }
+      return false;
+    }, every);
+
+    let image: ImageContent;
+    if (format === 'sheet') {
+      const sheet = encodeSpriteSheet(samples, width, height, columns, options.format, options.quality);
+      image = { type: 'image', data: sheet.data.toString('base64'), mimeType: `image/${options.format ?? 'png'}` };
+      width = sheet.width;
+      height = sheet.height;
+    } else if (format === 'gif') {
+      image = { type: 'image', data: encodeGif(samples, width, height, every).toString('base64'), mimeType: 'image/gif' };
+    } else {
+      // APNG is served as image/png; viewers without APNG support show the first frame
+      image = { type: 'image', data: encodeApng(samples, width, height, every).toString('base64'), mimeType: 'image/png' };
     }
 
-    log.verbose(`Waited ${durationFrames} frames async`);
+    log.verbose(`Captured ${samples.length} frames (${width}x${height})`);
+    return { image, frames: samples.length, width, height };
+  }
+
+  /**
+   * Advance frames while collecting the APU output
+   * @param durationFrames Number of frames to record
+   * @param silenceDb RMS level (dBFS) below which a frame counts as silent
+   * @returns 16-bit stereo WAV and a loudness analysis
+   */
+  async recordAudioAsync(durationFrames: number, silenceDb: number = -50): Promise<{ wav: Buffer; analysis: AudioAnalysis }> {
+    log.debug(`Recording audio for ${durationFrames} frames`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to record audio with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+
+    const left = new Float32Array(durationFrames * SAMPLES_PER_FRAME);
+    const right = new Float32Array(durationFrames * SAMPLES_PER_FRAME);
+
+    // Nothing drains the DSP buffer between recordings, so discard what is there
+    this.emulator.takeAudioSamples(SAMPLES_PER_FRAME);
+
+    this.commandQueue.push({ type: 'wait_frames', durationFrames });
+    this.wsSync?.broadcastWaitFrames(durationFrames);
+
+    let frame = 0;
+    await this.runFramesAsync(durationFrames, () => {
+      const samples = this.emulator.takeAudioSamples(SAMPLES_PER_FRAME);
+      left.set(samples.left, frame * SAMPLES_PER_FRAME);
+      right.set(samples.right, frame * SAMPLES_PER_FRAME);
+      frame++;
+      return false;
+    });
+
+    const analysis = analyzeAudio(left, right, silenceDb);
+    log.verbose(`Recorded ${analysis.durationSeconds}s of audio (${analysis.rmsDb} dBFS)`);
+    return { wav: encodeWav(left, right), analysis };
+  }
+
+  /**
+   * Write a WAV recording to AUDIO_DIR (default ./audio), named after the ROM and time
+   * @returns Path of the written file
+   */
+  saveAudioFile(wav: Buffer): string {
+    const dir = process.env.AUDIO_DIR || path.join(process.cwd(), 'audio');
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    const romName = romBaseName(this.emulator.getRomPath() ?? 'snes');
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const file = path.join(dir, `${romName.replace(/[^\w\-. ()[\]]/g, '_')}-${stamp}.wav`);
+    fs.writeFileSync(file, wav);
+    log.info(`Audio saved: ${file}`);
+    return file;
+  }
+
+  /**
+   * Advance frames until a WRAM condition holds or maxFrames pass.
+   * The browser is sent the elapsed frame count afterwards so it stays in sync.
+   * @param conditions Conditions on WRAM values
+   * @param combine 'all' (AND) or 'any' (OR)
+   * @param maxFrames Timeout in frames
+   */
+  async waitUntilAsync(
+    conditions: RamCondition[],
+    combine: 'all' | 'any',
+    maxFrames: number
+  ): Promise<{ frames: number; timedOut: boolean; values: Record<string, number> }> {
+    log.debug(`Waiting until ${combine} of ${conditions.length} conditions (max ${maxFrames} frames)`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to wait with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+
+    const watcher = new RamConditionWatcher(conditions, combine, condition =>
+      condition.width === 16
+        ? this.emulator.readRamWord(condition.address)
+        : this.emulator.readRamByte(condition.address)
+    );
+
+    let satisfied = false;
+    const frames = await this.runFramesAsync(maxFrames, () => {
+      satisfied = watcher.check();
+      return satisfied;
+    });
+
+    // Replay the same number of frames in the browser
+    this.commandQueue.push({ type: 'wait_frames', durationFrames: frames });
+    this.wsSync?.broadcastWaitFrames(frames);
+
+    log.verbose(`wait_until finished after ${frames} frames${satisfied ? '' : ' (timed out)'}`);
+    return { frames, timedOut: !satisfied, values: watcher.getValues() };
+  }
+
+  /**
+   * Advance frames with the PPU enabled until the screen settles or changes.
+   * 'stable' stops once the per-frame change stays at or below threshold for
+   * stableFrames frames in a row; 'change' stops on the first frame that
+   * differs from the starting frame by more than threshold, so slow fades
+   * and scrolls count too.
+   * @param mode 'stable' or 'change'
+   * @param threshold Fraction of pixels (0 to 1)
+   * @param stableFrames Consecutive quiet frames required in 'stable' mode
+   * @param maxFrames Timeout in frames, including the one rendered for the baseline
+   */
+  async waitForScreenAsync(
+    mode: 'stable' | 'change',
+    threshold: number,
+    stableFrames: number,
+    maxFrames: number
+  ): Promise<{ frames: number; timedOut: boolean; lastChange: number }> {
+    log.debug(`Waiting for screen ${mode} (threshold ${threshold}, max ${maxFrames} frames)`);
+    if (!this.isRomLoaded()) {
+      log.warn('Attempted to wait for screen with no ROM loaded');
+      throw new Error('No ROM loaded');
+    }
+
+    // Baseline: a freshly rendered frame, since earlier frames may have
+    // run without the PPU and left the framebuffer stale
+    this.emulator.doFrame();
+    this.emulator.resetFrameSample();
+    this.emulator.sampleFrameChange();
+
+    let quietFrames = 0;
+    let lastChange = 0;
+    let done = false;
+    const frames = 1 + await this.runFramesAsync(maxFrames - 1, () => {
+      lastChange = this.emulator.sampleFrameChange(mode === 'change');
+      if (mode === 'change') {
+        done = lastChange > threshold;
+      } else {
+        quietFrames = lastChange <= threshold ? quietFrames + 1 : 0;
+        done = quietFrames >= stableFrames;
+      }
+      return done;
+    }, 1);
+
+    // Replay the same number of frames in the browser
+    this.commandQueue.push({ type: 'wait_frames', durationFrames: frames });
+    this.wsSync?.broadcastWaitFrames(frames);
+
+    log.verbose(`Screen ${mode} wait finished after ${frames} frames${done ? '' : ' (timed out)'}`);
+    return { frames, timedOut: !done, lastChange };
+  }
+
+  /**
+   * Cheats and frozen RAM are part of a movie; refuse to change them mid-movie
+   */
+  private checkNoMovie(action: string): void {
+    if (this.movieRecording || this.moviePlayback) {
+      throw new Error(`Cannot ${action} while a movie is being recorded or played`);
+    }
+  }
+
+  /**
+   * Start recording every frame's pad states (from tools, the browser and WS alike)
+   * @param name Movie name, used as the file name
+   * @param anchor 'power_on' hard-resets first (clearing WRAM and SRAM, which
+   *               is given back when recording stops); 'savestate' starts
+   *               from the current state
+   */
+  startMovieRecording(name: string, anchor: MovieAnchor): TextContent {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    if (this.movieRecording || this.moviePlayback) {
+      throw new Error('A movie is already being recorded or played');
+    }
+    checkMovieName(name);
+
+    let state: object | undefined;
+    let playerSram: Uint8Array | undefined;
+    if (anchor === 'power_on') {
+      // Keep the player's .srm from being overwritten by the cleared SRAM
+      playerSram = this.emulator.getSram();
+      this.sramManager.release();
+      this.emulator.powerOn();
+      this.syncBrowserState();
+    } else {
+      state = this.emulator.saveState();
+    }
+
+    // Cheats and freezes change what the inputs do, so they're part of the movie
+    const movie: Movie = {
+      gameName: path.basename(this.emulator.getRomPath()!),
+      romHash: this.emulator.getRomHash()!,
+      anchor,
+      cheats: this.cheats.map(c => c.code),
+      frozen: Array.from(this.emulator.getFrozenRam()),
+      frames: []
+    };
+    this.movieRecording = { name, movie, state, playerSram };
+
+    log.info(`Recording movie ${name} from ${anchor}`);
+    return {
+      type: 'text',
+      text: JSON.stringify({ recording: true, name, anchor, cheats: movie.cheats, frozenBytes: movie.frozen.length })
+    };
+  }
+
+  /**
+   * Stop recording and write the movie to disk
+   */
+  stopMovieRecording(): TextContent {
+    const recording = this.movieRecording;
+    if (!recording) {
+      throw new Error('No movie is being recorded');
+    }
+    this.movieRecording = undefined;
+    if (recording.movie.anchor === 'power_on') {
+      this.restorePlayerSram(recording.playerSram);
+      this.syncBrowserState();
+    }
+
+    const file = this.movieStore.save(recording.name, recording.movie, recording.state);
+    return {
+      type: 'text',
+      text: JSON.stringify({ saved: true, name: recording.name, frames: recording.movie.frames.length, file })
+    };
+  }
+
+  /**
+   * Replay a recorded movie from its anchor, overriding pad input on every frame
+   * @param name Movie name
+   */
+  async playMovieAsync(name: string): Promise<{ name: string; anchor: MovieAnchor; frames: number }> {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    if (this.movieRecording || this.moviePlayback) {
+      throw new Error('A movie is already being recorded or played');
+    }
+
+    const { movie, state } = this.movieStore.load(name);
+    if (movie.romHash !== this.emulator.getRomHash()) {
+      log.warn(`Refusing to play movie ${name}: recorded with ${movie.gameName} (${movie.romHash})`);
+      throw new Error(`Movie ${name} was recorded with a different ROM (${movie.gameName})`);
+    }
+
+    const movieCheats = movie.cheats.map(code => parseCheatCode(code));
+
+    let playerSram: Uint8Array | undefined;
+    if (movie.anchor === 'power_on') {
+      playerSram = this.emulator.getSram();
+      this.sramManager.release();
+      this.emulator.powerOn();
+    } else {
+      this.emulator.loadState(state!);
+    }
+
+    // Play under the movie's cheats and freezes, then put the session's back
+    const sessionFrozen = this.emulator.getFrozenRam();
+    this.emulator.setCheats(movieCheats);
+    this.emulator.unfreezeRam();
+    for (const [address, value] of movie.frozen) {
+      this.emulator.writeRamByte(address, value, true);
+    }
+
+    const playback = { frames: movie.frames, index: 0 };
+    this.moviePlayback = playback;
+    log.info(`Playing movie ${name} (${movie.frames.length} frames)`);
+
+    try {
+      // Render the last frame so the screenshot shows where the movie ends
+      await this.runFramesAsync(movie.frames.length - 1);
+      if (movie.frames.length > 0) {
+        this.emulator.doFrame();
+      }
+    } finally {
+      this.moviePlayback = undefined;
+      this.emulator.setPadStates(0, 0);
+      this.emulator.setCheats(this.cheats);
+      this.emulator.unfreezeRam();
+      for (const [address, value] of sessionFrozen) {
+        this.emulator.writeRamByte(address, value, true);
+      }
+      if (movie.anchor === 'power_on') {
+        this.restorePlayerSram(playerSram);
+      }
+      // The browser didn't run the movie; bring it to where the movie ends
+      this.syncBrowserState();
+    }
+
+    return { name, anchor: movie.anchor, frames: playback.index };
+  }
+
+  /**
+   * Give back the SRAM a power-on movie cleared and resume .srm persistence
+   */
+  private restorePlayerSram(sram: Uint8Array | undefined): void {
+    if (sram) {
+      this.emulator.setSram(sram);
+    }
+    this.sramManager.attach(this.getSavePath());
+  }
+
+  /**
+   * List the stored movies
+   */
+  listMovies(): TextContent {
+    return {
+      type: 'text',
+      text: JSON.stringify({ movies: this.movieStore.list(), recording: this.movieRecording?.name ?? null })
+    };
+  }
+
+  /**
+   * Runs before every emulated frame: movie playback and rewind replay
+   * override the pads first, then the frame's inputs are logged. Frames
+   * replayed after a rewind are already in the movie and aren't logged again.
+   */
+  private onFrame(): void {
+    const playback = this.moviePlayback;
+    if (playback) {
+      const [pad1, pad2] = playback.frames[playback.index++] ?? [0, 0];
+      this.emulator.setPadStates(pad1, pad2);
+    }
+    const replaying = this.rewindBuffer.isReplaying();
+    this.rewindBuffer.onFrame();
+    if (!replaying) {
+      this.movieRecording?.movie.frames.push(this.emulator.getPadStates());
+    }
+  }
+
+  /**
+   * Go back in time: restore the nearest rewind snapshot and replay forward
+   * to exactly the requested frame. While recording a movie, the rewound
+   * frames are cut from it (a re-record).
+   * @param frames Number of frames to go back
+   */
+  async rewindAsync(frames: number): Promise<{ rewound: number; frame: number; historyFrames: number }> {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    if (this.moviePlayback) {
+      throw new Error('Cannot rewind while a movie is playing');
+    }
+    const recorded = this.movieRecording?.movie.frames;
+    if (recorded && frames > recorded.length) {
+      throw new Error(`Cannot rewind past the start of the movie recording (${recorded.length} frames recorded)`);
+    }
+
+    // Replay overrides the pads; keep whatever is held now for afterwards
+    const [pad1, pad2] = this.emulator.getPadStates();
+    const { rewound, replayFrames } = this.rewindBuffer.rewind(frames);
+    recorded?.splice(recorded.length - rewound);
+
+    // Render the last replayed frame for the screenshot
+    await this.runFramesAsync(replayFrames - 1);
+    this.emulator.doFrame();
+    this.emulator.setPadStates(pad1, pad2);
+    this.syncBrowserState();
+
+    log.info(`Rewound ${rewound} frames`);
+    return { rewound, frame: this.emulator.getFrameCount(), historyFrames: this.rewindBuffer.getStats().frames };
   }
 
-  getScreen(): ImageContent {
+  /**
+   * Send the server's full state to the browsers, which load it in place
+   * of their own (after a rewind, where replaying inputs can't sync them)
+   */
+  syncBrowserState(): void {
+    if (this.isRomLoaded()) {
+      this.wsSync?.broadcastState(this.emulator.saveState());
+    }
+  }
+
+  /**
+   * Set the screenshot options used when a call doesn't specify them
+   * @param options New defaults; replaces the previous ones entirely
+   */
+  setScreenshotDefaults(options: ScreenshotOptions): TextContent {
+    this.screenshotDefaults = { ...options };
+    log.info('Screenshot defaults updated', JSON.stringify(this.screenshotDefaults));
+    return { type: 'text', text: JSON.stringify({ screenshotDefaults: this.screenshotDefaults }) };
+  }
+
+  /**
+   * Get the current screen
+   * @param options Screenshot options, layered over the session defaults
+   */
+  getScreen(options: ScreenshotOptions = {}): ImageContent {
     log.verbose('Getting current screen');
     if (!this.isRomLoaded()) {
       log.warn('Attempted to get screen with no ROM loaded');
       throw new Error('No ROM loaded');
     }
-    const screenBase64 = this.emulator.getScreenAsBase64();
+    const image = this.emulator.getScreenImage({ ...this.screenshotDefaults, ...options });
     const screen: ImageContent = {
       type: 'image',
-      data: screenBase64,
-      mimeType: 'image/png'
+      data: image.data.toString('base64'),
+      mimeType: image.mimeType
     };
     return screen;
   }
@@ -217,8 +805,9 @@ export class EmulatorService {
   /**
    * Advance one frame (with PPU) and get the screen
    * Also adds a command to queue for browser sync
+   * @param options Screenshot options, layered over the session defaults
    */
-  advanceFrameAndGetScreen(): ImageContent {
+  advanceFrameAndGetScreen(options: ScreenshotOptions = {}): ImageContent {
     log.verbose('Advancing one frame and getting screen');
     if (!this.isRomLoaded()) {
       log.warn('Attempted to advance frame with no ROM loaded');
@@ -230,7 +819,7 @@ export class EmulatorService {
 
     this.emulator.doFrame(); // Full frame with PPU for screenshot
     this.wsSync?.broadcastAdvanceFrame();
-    return this.getScreen();
+    return this.getScreen(options);
   }
 
   saveState(slot: number): TextContent {
@@ -238,28 +827,177 @@ export class EmulatorService {
       throw new Error('No ROM loaded');
     }
     const state = this.emulator.saveState();
-    this.saveSlots.set(slot, state);
-    const timestamp = new Date().toISOString();
-    log.info(`State saved to slot ${slot} at ${timestamp}`);
+    const meta: SaveStateMeta = {
+      slot,
+      romName: path.basename(this.emulator.getRomPath()!),
+      romHash: this.emulator.getRomHash()!,
+      frame: this.emulator.getFrameCount(),
+      timestamp: new Date().toISOString()
+    };
+    this.saveStateStore.save(this.getSavePath(), meta, state, this.emulator.getThumbnailPng());
+    log.info(`State saved to slot ${slot} at ${meta.timestamp}`);
     return {
       type: 'text',
-      text: JSON.stringify({ saved: true, slot, timestamp })
+      text: JSON.stringify({ saved: true, slot, timestamp: meta.timestamp, frame: meta.frame })
     };
   }
 
-  loadState(slot: number): ImageContent {
+  loadState(slot: number, screenshot?: ScreenshotOptions): ImageContent {
     if (!this.isRomLoaded()) {
       throw new Error('No ROM loaded');
     }
-    const state = this.saveSlots.get(slot);
-    if (!state) {
+    const savePath = this.getSavePath();
+    const meta = this.saveStateStore.readMeta(savePath, slot);
+    if (!meta) {
       throw new Error(`No save state in slot ${slot}`);
     }
+    if (meta.romHash !== this.emulator.getRomHash()) {
+      log.warn(`Refusing to load slot ${slot}: saved with ${meta.romName} (${meta.romHash})`);
+      throw new Error(`Save state in slot ${slot} was made with a different ROM (${meta.romName})`);
+    }
+    if (this.movieRecording) {
+      throw new Error(`Stop the movie recording (${this.movieRecording.name}) before loading a state`);
+    }
+    if (this.moviePlayback) {
+      throw new Error('Cannot load a state while a movie is playing');
+    }
+    const state = this.saveStateStore.readState(savePath, slot);
     this.emulator.loadState(state);
+    this.rewindBuffer.clear();
     log.info(`State loaded from slot ${slot}`);
     // Run one frame with PPU to regenerate the screen
     this.emulator.doFrame();
-    return this.getScreen();
+    this.syncBrowserState();
+    return this.getScreen(screenshot);
+  }
+
+  /**
+   * List the save-state slots stored on disk for the current ROM
+   * @param includeThumbnails Whether to append each slot's thumbnail as an image
+   */
+  listStates(includeThumbnails: boolean = false): Array<TextContent | ImageContent> {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    const savePath = this.getSavePath();
+    const romHash = this.emulator.getRomHash();
+    const slots = this.saveStateStore.list(savePath);
+
+    const content: Array<TextContent | ImageContent> = [{
+      type: 'text',
+      text: JSON.stringify({
+        directory: this.saveStateStore.getRomDir(savePath),
+        slots: slots.map(meta => ({ ...meta, matchesRom: meta.romHash === romHash }))
+      })
+    }];
+
+    if (includeThumbnails) {
+      for (const meta of slots) {
+        const thumbPath = this.saveStateStore.getThumbnailPath(savePath, meta.slot);
+        if (fs.existsSync(thumbPath)) {
+          content.push({
+            type: 'image',
+            data: fs.readFileSync(thumbPath).toString('base64'),
+            mimeType: 'image/png'
+          });
+        }
+      }
+    }
+    return content;
+  }
+
+  /**
+   * Get a decoded view of the 65816 registers
+   * @returns Object with registers as hex, flags as letters and beam position
+   */
+  getCpuState(): Record<string, string | number | boolean> {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+
+    const cpu = this.emulator.getCpuState();
+    const hex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+    const flags = (Object.entries(cpu.flags) as Array<[string, boolean]>)
+      .map(([name, set]) => set ? name.toUpperCase() : name)
+      .join('');
+
+    return {
+      A: hex(cpu.a, 4),
+      X: hex(cpu.x, 4),
+      Y: hex(cpu.y, 4),
+      SP: hex(cpu.sp, 4),
+      DP: hex(cpu.dp, 4),
+      DBR: hex(cpu.dbr, 2),
+      PC: `${hex(cpu.pbr, 2)}:${hex(cpu.pc, 4)}`,
+      flags,
+      emulationMode: cpu.emulationMode,
+      nmiPending: cpu.nmiPending,
+      irqPending: cpu.irqPending,
+      stopped: cpu.stopped,
+      waiting: cpu.waiting,
+      scanline: cpu.scanline,
+      dot: cpu.dot
+    };
+  }
+
+  /**
+   * Disassemble 65816 code from the CPU bus
+   * @param address 24-bit start address; defaults to the current PC
+   * @param count Number of instructions to decode
+   * @param aroundPc Center the listing on the current PC instead of starting at address
+   * @returns Assembly listing, with the current PC marked by '>'
+   */
+  disassemble(address: number | undefined, count: number = 16, aroundPc: boolean = false): string {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+
+    const cpu = this.emulator.getCpuState();
+    const pc = (cpu.pbr << 16) | cpu.pc;
+    const flags = { m: cpu.flags.m, x: cpu.flags.x, e: cpu.emulationMode };
+    const read = (addr: number) => this.emulator.readBus(addr);
+
+    let start = address ?? pc;
+    if (aroundPc) {
+      start = findStartBefore(read, pc, Math.floor(count / 2), flags).start;
+    }
+
+    return formatDisassembly(disassemble(read, start, count, flags), pc);
+  }
+
+  /**
+   * Read the text on screen from the background tilemaps, through the ROM's
+   * character table; without a table, return raw tile numbers instead
+   * @param layers BG layers to read (1-4); default: those enabled on screen
+   */
+  readScreenText(layers?: number[]): TextContent {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+
+    const state = this.emulator.getBgState();
+    const romPath = this.emulator.getRomPath()!;
+    const table = CharacterTable.load(romPath);
+    const selected = state.layers.filter(bg => layers
+      ? layers.includes(bg.layer + 1)
+      : bg.mainScreen || bg.subScreen);
+
+    const result = selected.map(bg => {
+      const rows = readVisibleTiles(state, bg);
+      return table
+        ? { layer: `BG${bg.layer + 1}`, lines: extractText(rows, table) }
+        : { layer: `BG${bg.layer + 1}`, cellSize: bg.bigTiles ? 16 : 8, rows: formatTileRows(rows) };
+    });
+
+    return {
+      type: 'text',
+      text: JSON.stringify({
+        mode: state.mode,
+        table: table?.file ?? null,
+        ...(table ? {} : { hint: `No character table found. Map tile numbers to text in ${CharacterTable.pathFor(romPath)} (one hex=text per line, e.g. 0A1=A)` }),
+        layers: result
+      })
+    };
   }
 
   /**
@@ -274,12 +1012,56 @@ export class EmulatorService {
     }
 
     const ram = this.emulator.dumpRam(startAddress, length);
-    
-    // Create hex dump
+    return this.formatMemoryDump(startAddress, ram);
+  }
+
+  /**
+   * Dump a range of PPU VRAM
+   * @param startAddress Start byte address (0x0000 to 0xFFFF)
+   * @param length Number of bytes to dump
+   * @returns Object with hex dump and raw bytes
+   */
+  dumpVram(startAddress: number = 0, length: number = 256): TextContent {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    return this.formatMemoryDump(startAddress, this.emulator.dumpVram(startAddress, length));
+  }
+
+  /**
+   * Dump a range of PPU CGRAM (palette)
+   * @param startAddress Start byte address (0x000 to 0x1FF)
+   * @param length Number of bytes to dump
+   * @returns Object with hex dump and raw bytes
+   */
+  dumpCgram(startAddress: number = 0, length: number = 0x200): TextContent {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    return this.formatMemoryDump(startAddress, this.emulator.dumpCgram(startAddress, length));
+  }
+
+  /**
+   * Dump a range of PPU OAM (sprite attributes)
+   * @param startAddress Start byte address (0x000 to 0x21F)
+   * @param length Number of bytes to dump
+   * @returns Object with hex dump and raw bytes
+   */
+  dumpOam(startAddress: number = 0, length: number = 0x220): TextContent {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    return this.formatMemoryDump(startAddress, this.emulator.dumpOam(startAddress, length));
+  }
+
+  /**
+   * Format a memory range as a hex dump plus raw bytes
+   */
+  private formatMemoryDump(startAddress: number, data: Uint8Array): TextContent {
     let hexDump = '';
-    for (let i = 0; i < ram.length; i += 16) {
+    for (let i = 0; i < data.length; i += 16) {
       const lineAddr = (startAddress + i).toString(16).padStart(6, '0');
-      const bytes = Array.from(ram.slice(i, i + 16))
+      const bytes = Array.from(data.slice(i, i + 16))
         .map(b => b.toString(16).padStart(2, '0'))
         .join(' ');
       hexDump += `${lineAddr}: ${bytes}\n`;
@@ -289,9 +1071,9 @@ export class EmulatorService {
       type: 'text',
       text: JSON.stringify({
         startAddress: startAddress.toString(16).padStart(6, '0'),
-        length: ram.length,
+        length: data.length,
         hexDump: hexDump.trim(),
-        bytes: Array.from(ram)
+        bytes: Array.from(data)
       })
     };
   }
@@ -309,42 +1091,361 @@ export class EmulatorService {
   }
 
   /**
-   * Check if dialog is active (for Chrono Trigger)
-   * This checks specific memory locations where dialog state is stored
-   * @returns Object with dialog state information
+   * Write a byte to WRAM
+   * @param address Address to write (0x0000 to 0x1FFFF)
+   * @param value Byte value
+   * @param freeze Re-apply the value every frame
    */
-  checkDialogState(): TextContent {
+  writeRamByte(address: number, value: number, freeze: boolean = false): TextContent {
     if (!this.isRomLoaded()) {
       throw new Error('No ROM loaded');
     }
+    if (freeze) {
+      this.checkNoMovie('freeze RAM');
+    }
+    this.emulator.writeRamByte(address, value, freeze);
+    log.debug(`Wrote byte ${value} to RAM ${address.toString(16)}${freeze ? ' (frozen)' : ''}`);
+    return {
+      type: 'text',
+      text: JSON.stringify({
+        address: address.toString(16).padStart(6, '0'),
+        value,
+        frozen: freeze
+      })
+    };
+  }
 
-    // Chrono Trigger specific addresses (based on common WRAM locations)
-    // These are approximate - we'll need to verify them
-    const dialogActive = this.emulator.readRamByte(0x0200);  // Common dialog flag location
-    const textBoxState = this.emulator.readRamByte(0x0201);  // Text box state
-    const dialogType = this.emulator.readRamByte(0x0202);    // Type of dialog
-    
-    // Alternative locations to check
-    const altDialogFlag1 = this.emulator.readRamByte(0x0A00);
-    const altDialogFlag2 = this.emulator.readRamByte(0x0B00);
-    const altDialogFlag3 = this.emulator.readRamByte(0x1A00);
+  /**
+   * Write a 16-bit word to WRAM (little-endian)
+   * @param address Address to write (0x0000 to 0x1FFFE)
+   * @param value 16-bit value
+   * @param freeze Re-apply the value every frame
+   */
+  writeRamWord(address: number, value: number, freeze: boolean = false): TextContent {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    if (freeze) {
+      this.checkNoMovie('freeze RAM');
+    }
+    this.emulator.writeRamWord(address, value, freeze);
+    log.debug(`Wrote word ${value} to RAM ${address.toString(16)}${freeze ? ' (frozen)' : ''}`);
+    return {
+      type: 'text',
+      text: JSON.stringify({
+        address: address.toString(16).padStart(6, '0'),
+        value,
+        frozen: freeze
+      })
+    };
+  }
 
+  /**
+   * Write a run of bytes to WRAM
+   * @param startAddress Start address (0x0000 to 0x1FFFF)
+   * @param bytes Byte values to write
+   * @param freeze Re-apply the values every frame
+   */
+  writeRam(startAddress: number, bytes: number[], freeze: boolean = false): TextContent {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    if (freeze) {
+      this.checkNoMovie('freeze RAM');
+    }
+    this.emulator.writeRam(startAddress, bytes, freeze);
+    log.debug(`Wrote ${bytes.length} bytes to RAM ${startAddress.toString(16)}${freeze ? ' (frozen)' : ''}`);
     return {
       type: 'text',
       text: JSON.stringify({
-        dialogActive: dialogActive,
-        textBoxState: textBoxState,
-        dialogType: dialogType,
-        alternativeFlags: {
-          flag1: altDialogFlag1,
-          flag2: altDialogFlag2,
-          flag3: altDialogFlag3
-        },
-        interpretation: {
-          likelyDialogActive: dialogActive !== 0 || textBoxState !== 0,
-          notes: "These are guessed addresses. We need to verify the actual locations."
-        }
-      }, null, 2)
+        startAddress: startAddress.toString(16).padStart(6, '0'),
+        length: bytes.length,
+        frozen: freeze
+      })
+    };
+  }
+
+  /**
+   * Stop re-applying frozen WRAM values
+   * @param startAddress Start of the range to unfreeze; omit to unfreeze everything
+   * @param length Number of bytes to unfreeze
+   */
+  unfreezeRam(startAddress?: number, length: number = 1): TextContent {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    this.checkNoMovie('unfreeze RAM');
+    const unfrozen = this.emulator.unfreezeRam(startAddress, length);
+    const remaining = Array.from(this.emulator.getFrozenRam())
+      .map(([address, value]) => ({ address: address.toString(16).padStart(6, '0'), value }));
+    return {
+      type: 'text',
+      text: JSON.stringify({ unfrozen, frozen: remaining })
+    };
+  }
+
+  /**
+   * Start a new RAM search session from a snapshot of WRAM
+   * @param width Value width in bits (8 or 16)
+   */
+  ramSearchStart(width: RamSearchWidth = 8): TextContent {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    this.ramSearch = new RamSearch(this.emulator.dumpRam(), width);
+    log.info(`RAM search started (${width}-bit)`);
+    return {
+      type: 'text',
+      text: JSON.stringify({ width, candidates: this.ramSearch.getCount() })
+    };
+  }
+
+  /**
+   * Narrow the current RAM search by comparing WRAM against the last snapshot
+   * @param comparison Comparison to apply
+   * @param value Operand for changed_by / equal_to
+   */
+  ramSearchFilter(comparison: RamSearchComparison, value?: number): TextContent {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    if (!this.ramSearch) {
+      throw new Error('No RAM search in progress. Call ram_search_start first.');
+    }
+    const remaining = this.ramSearch.filter(this.emulator.dumpRam(), comparison, value);
+    log.debug(`RAM search filter ${comparison}${value !== undefined ? ` ${value}` : ''}: ${remaining} candidates`);
+    return {
+      type: 'text',
+      text: JSON.stringify({
+        comparison,
+        value: value ?? null,
+        step: this.ramSearch.getSteps(),
+        candidates: remaining
+      })
+    };
+  }
+
+  /**
+   * List the remaining RAM search candidates
+   * @param limit Maximum number of candidates to return
+   */
+  ramSearchResults(limit: number = 50): TextContent {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    if (!this.ramSearch) {
+      throw new Error('No RAM search in progress. Call ram_search_start first.');
+    }
+    const results = this.ramSearch.getResults(this.emulator.dumpRam(), limit);
+    return {
+      type: 'text',
+      text: JSON.stringify({
+        width: this.ramSearch.width,
+        step: this.ramSearch.getSteps(),
+        candidates: this.ramSearch.getCount(),
+        results: results.map(r => ({
+          address: r.address.toString(16).padStart(6, '0'),
+          value: r.value,
+          previous: r.previous
+        }))
+      })
+    };
+  }
+
+  /**
+   * Get the cheats active for the current ROM
+   */
+  getCheats(): Cheat[] {
+    return this.cheats;
+  }
+
+  /**
+   * Add a Game Genie or Pro Action Replay cheat for the current ROM
+   * @param code Cheat code (XXXX-XXXX or 7E1234AB)
+   * @param description Optional note about what the cheat does
+   */
+  addCheat(code: string, description?: string): TextContent {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    this.checkNoMovie('change cheats');
+    const cheat = parseCheatCode(code);
+    if (description) {
+      cheat.description = description;
+    }
+    this.cheats = this.cheats.filter(c => c.code !== cheat.code).concat(cheat);
+    this.applyCheats();
+    log.info(`Cheat added: ${cheat.code} (${cheat.type})`);
+    return this.listCheats();
+  }
+
+  /**
+   * Remove a cheat from the current ROM
+   * @param code Cheat code as added
+   */
+  removeCheat(code: string): TextContent {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    this.checkNoMovie('change cheats');
+    const normalized = code.trim().toUpperCase().replace(':', '');
+    const remaining = this.cheats.filter(c => c.code !== normalized);
+    if (remaining.length === this.cheats.length) {
+      throw new Error(`No active cheat with code ${code}`);
+    }
+    this.cheats = remaining;
+    this.applyCheats();
+    log.info(`Cheat removed: ${normalized}`);
+    return this.listCheats();
+  }
+
+  /**
+   * List the cheats active for the current ROM
+   */
+  listCheats(): TextContent {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    return {
+      type: 'text',
+      text: JSON.stringify({
+        cheats: this.cheats.map(c => ({
+          code: c.code,
+          type: c.type,
+          address: c.address.toString(16).padStart(6, '0'),
+          value: c.value,
+          description: c.description ?? null
+        }))
+      })
+    };
+  }
+
+  /** Push the cheat list to the emulator, persist it and notify browsers */
+  private applyCheats(): void {
+    this.emulator.setCheats(this.cheats);
+    this.cheatStore.save(this.getSavePath(), this.cheats);
+    this.wsSync?.broadcastCheatsChanged();
+  }
+
+  /**
+   * Get the decoded ROM header, checksum verification and fingerprints
+   * of the loaded ROM, with numbers formatted for display
+   */
+  getRomInfo(): Record<string, string | number | boolean | null> {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+
+    const info = this.emulator.getRomInfo()!;
+    const hex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+    const dat = this.romDatabase.identify({ crc32: hex(info.crc32, 8).toLowerCase(), sha1: info.sha1 });
+
+    return {
+      file: path.basename(this.emulator.getRomPath()!),
+      title: info.title,
+      mapping: info.mapping,
+      mapMode: hex(info.mapMode, 2),
+      fastRom: info.fastRom,
+      chipset: info.chipset,
+      chipsetByte: hex(info.chipsetByte, 2),
+      coprocessor: info.coprocessor ?? null,
+      supported: !info.coprocessor,
+      declaredRomSize: info.declaredRomSize,
+      actualRomSize: info.actualRomSize,
+      sramSize: info.sramSize,
+      region: info.region,
+      video: info.video,
+      developerId: hex(info.developerId, 2),
+      version: `1.${info.version}`,
+      checksum: hex(info.checksum, 4),
+      complement: hex(info.complement, 4),
+      computedChecksum: hex(info.computedChecksum, 4),
+      complementValid: ((info.checksum + info.complement) & 0xFFFF) === 0xFFFF,
+      checksumValid: info.checksum === info.computedChecksum,
+      crc32: hex(info.crc32, 8),
+      sha1: info.sha1,
+      copierHeader: info.copierHeader,
+      patch: this.emulator.getPatchPath() ?? null,
+      datStatus: dat?.status ?? null,
+      datName: dat?.canonicalName ?? null
+    };
+  }
+
+  /**
+   * Problems with the loaded ROM that will keep it from running,
+   * e.g. an enhancement chip the emulator doesn't implement
+   */
+  getRomWarnings(): string[] {
+    const info = this.emulator.getRomInfo();
+    if (!info?.coprocessor) {
+      return [];
+    }
+    return [`${info.title || 'This ROM'} needs the ${info.coprocessor} coprocessor, which is not emulated: it will hang or show garbage`];
+  }
+
+  /**
+   * Match a ROM file against the DAT files in DATS_DIR
+   * @returns Canonical name, region, revision and dump status, or undefined
+   * if there are no DATs or the file can't be read
+   */
+  identifyRom(romPath: string): RomIdentification | undefined {
+    try {
+      return this.romDatabase.identifyFile(romPath);
+    } catch (error) {
+      log.warn(`Could not identify ROM ${romPath}`, String(error));
+      return undefined;
+    }
+  }
+
+  /**
+   * Look up the game profile for the loaded ROM again (e.g. after editing
+   * the profile file) and notify listeners of the result
+   * @returns The active profile, if any
+   */
+  reloadGameProfile(): GameProfile | undefined {
+    const info = this.emulator.getRomInfo();
+    this.profile = info ? this.profileStore.find(info) : undefined;
+    if (this.profile) {
+      log.info(`Using game profile "${this.profile.name}" from ${this.profile.file}`);
+    } else if (info) {
+      log.verbose(`No game profile for "${info.title}" (checksum ${info.checksum.toString(16).padStart(4, '0')})`);
+    }
+
+    for (const listener of this.profileListeners) {
+      listener(this.profile);
+    }
+    return this.profile;
+  }
+
+  getGameProfile(): GameProfile | undefined {
+    return this.profile;
+  }
+
+  /**
+   * Register a callback for when the active game profile changes
+   * (on every ROM load and profile reload)
+   */
+  onGameProfileChange(listener: (profile?: GameProfile) => void): void {
+    this.profileListeners.push(listener);
+  }
+
+  /**
+   * Read the active game profile's variables and flags
+   * @param only Limit the result to these variables and flags
+   */
+  getGameState(only?: { variables?: string[]; flags?: string[] }): TextContent {
+    if (!this.isRomLoaded()) {
+      throw new Error('No ROM loaded');
+    }
+    if (!this.profile) {
+      const info = this.emulator.getRomInfo()!;
+      throw new Error(`No game profile for this ROM (header title "${info.title}", checksum ${info.checksum.toString(16).padStart(4, '0')})`);
+    }
+
+    const state = readGameState(this.profile, address => this.emulator.readRamByte(address), only);
+    return {
+      type: 'text',
+      text: JSON.stringify(this.profile.notes ? { ...state, notes: this.profile.notes } : state)
     };
   }
 }
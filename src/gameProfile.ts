@@ -0,0 +1,231 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+import { log } from './utils/logger';
+
+// WRAM address as a number or hex string ("0x0200", "$0200", "7E0200").
+// Bus addresses in banks 7E/7F are mapped to WRAM offsets.
+const addressSchema = z.union([z.number().int(), z.string().regex(/^(0x|\$)?[0-9A-Fa-f]{1,6}$/)])
+  .transform(value => typeof value === 'number' ? value : parseInt(value.replace(/^(0x|\$)/, ''), 16))
+  .transform(value => value >= 0x7E0000 && value <= 0x7FFFFF ? value - 0x7E0000 : value)
+  .refine(value => value >= 0 && value < 0x20000, 'Address must be in WRAM (0x0000-0x1FFFF or 7E0000-7FFFFF)');
+
+const nameSchema = z.string().regex(/^[a-z][a-z0-9_]*$/, 'Names must be lowercase snake_case');
+
+const variableSchema = z.object({
+  address: addressSchema,
+  width: z.union([z.literal(8), z.literal(16), z.literal(24), z.literal(32)]).default(8),
+  encoding: z.enum(['unsigned', 'signed', 'bcd']).default('unsigned'),
+  mask: z.number().int().positive().optional(),
+  labels: z.record(z.string()).optional(),
+  description: z.string().optional()
+});
+
+const testSchema = z.object({
+  variable: nameSchema,
+  op: z.enum(['equals', 'not_equals', 'greater_than', 'less_than', 'bits_set', 'bits_clear']),
+  value: z.number().int()
+});
+
+const flagSchema = z.object({
+  all: z.array(testSchema).min(1).optional(),
+  any: z.array(testSchema).min(1).optional(),
+  description: z.string().optional()
+}).refine(flag => flag.all || flag.any, 'A flag needs an "all" or "any" list of tests');
+
+const toolSchema = z.object({
+  name: nameSchema,
+  description: z.string(),
+  variables: z.array(nameSchema).optional(),
+  flags: z.array(nameSchema).optional()
+});
+
+const oneOrMany = <T extends z.ZodTypeAny>(schema: T) =>
+  z.union([schema, z.array(schema)]).transform(value => Array.isArray(value) ? value : [value]);
+
+const profileSchema = z.object({
+  name: z.string(),
+  match: z.object({
+    title: oneOrMany(z.string()).optional(),
+    checksum: oneOrMany(z.union([z.number().int(), z.string().regex(/^(0x)?[0-9A-Fa-f]{1,4}$/)])
+      .transform(value => typeof value === 'number' ? value : parseInt(value.replace(/^0x/, ''), 16))).optional(),
+    sha1: oneOrMany(z.string().regex(/^[0-9A-Fa-f]{40}$/).transform(value => value.toLowerCase())).optional()
+  }).refine(match => match.title || match.checksum || match.sha1, 'A profile needs a title, checksum or sha1 to match'),
+  notes: z.string().optional(),
+  variables: z.record(nameSchema, variableSchema).default({}),
+  flags: z.record(nameSchema, flagSchema).default({}),
+  tools: z.array(toolSchema).default([])
+});
+
+export type GameProfile = z.infer<typeof profileSchema> & { file: string };
+export type ProfileVariable = z.infer<typeof variableSchema>;
+export type ProfileTool = z.infer<typeof toolSchema>;
+
+// Identifying details of a loaded ROM
+export interface RomIdentity {
+  title: string;
+  checksum: number;
+  sha1: string;
+}
+
+export interface GameState {
+  profile: string;
+  variables: Record<string, number>;
+  labels: Record<string, string>;
+  flags: Record<string, boolean>;
+}
+
+/**
+ * Check that every variable a profile's flags and tools refer to exists
+ */
+function checkReferences(profile: z.infer<typeof profileSchema>): void {
+  const requireVariable = (name: string, where: string) => {
+    if (!profile.variables[name]) {
+      throw new Error(`${where} refers to unknown variable "${name}"`);
+    }
+  };
+  for (const [flagName, flag] of Object.entries(profile.flags)) {
+    for (const test of [...(flag.all ?? []), ...(flag.any ?? [])]) {
+      requireVariable(test.variable, `Flag ${flagName}`);
+    }
+  }
+  for (const tool of profile.tools) {
+    tool.variables?.forEach(name => requireVariable(name, `Tool ${tool.name}`));
+    tool.flags?.forEach(name => {
+      if (!profile.flags[name]) {
+        throw new Error(`Tool ${tool.name} refers to unknown flag "${name}"`);
+      }
+    });
+  }
+}
+
+/**
+ * Finds the game profile for a ROM among the .json/.yaml files in
+ * PROFILES_DIR (default ./profiles). A checksum or SHA-1 match beats a
+ * title match, so a profile can target one release of a game.
+ */
+export class GameProfileStore {
+  private baseDir: string;
+
+  constructor(baseDir?: string) {
+    this.baseDir = baseDir || process.env.PROFILES_DIR || path.join(process.cwd(), 'profiles');
+  }
+
+  /**
+   * Load and validate every profile file; broken files are logged and skipped
+   */
+  loadAll(): GameProfile[] {
+    if (!fs.existsSync(this.baseDir)) {
+      return [];
+    }
+
+    const profiles: GameProfile[] = [];
+    for (const entry of fs.readdirSync(this.baseDir).sort()) {
+      if (!/\.(json|ya?ml)$/i.test(entry)) continue;
+      const file = path.join(this.baseDir, entry);
+      try {
+        const text = fs.readFileSync(file, 'utf-8');
+        const parsed = profileSchema.parse(/\.json$/i.test(entry) ? JSON.parse(text) : YAML.parse(text));
+        checkReferences(parsed);
+        profiles.push({ ...parsed, file });
+      } catch (error) {
+        const reason = error instanceof z.ZodError
+          ? error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')
+          : error instanceof Error ? error.message : String(error);
+        log.warn(`Ignoring invalid game profile ${file}: ${reason}`);
+      }
+    }
+    return profiles;
+  }
+
+  /**
+   * Find the profile for a ROM, or undefined if none matches
+   */
+  find(rom: RomIdentity): GameProfile | undefined {
+    const profiles = this.loadAll();
+    const exact = profiles.find(profile =>
+      profile.match.sha1?.includes(rom.sha1) || profile.match.checksum?.includes(rom.checksum));
+    if (exact) {
+      return exact;
+    }
+    const title = rom.title.trim().toUpperCase();
+    return profiles.find(profile => profile.match.title?.some(t => t.trim().toUpperCase() === title));
+  }
+}
+
+/**
+ * Decode a profile variable from WRAM
+ * @param readByte Reads one WRAM byte
+ */
+export function readVariable(variable: ProfileVariable, readByte: (address: number) => number): number {
+  const bytes = variable.width / 8;
+  let raw = 0;
+  for (let i = 0; i < bytes; i++) {
+    raw += readByte((variable.address + i) & 0x1FFFF) * Math.pow(256, i);
+  }
+  if (variable.mask !== undefined) {
+    // Masks fit in 32 bits; >>> 0 keeps the result unsigned
+    raw = (raw & variable.mask) >>> 0;
+  }
+
+  switch (variable.encoding) {
+    case 'signed':
+      return raw >= Math.pow(2, variable.width - 1) ? raw - Math.pow(2, variable.width) : raw;
+    case 'bcd': {
+      let value = 0;
+      for (let shift = variable.width - 4; shift >= 0; shift -= 4) {
+        value = value * 10 + Math.floor(raw / Math.pow(2, shift)) % 16;
+      }
+      return value;
+    }
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Read a profile's variables and evaluate its flags
+ * @param only Limit the result to these variables and flags (a profile tool's selection)
+ */
+export function readGameState(
+  profile: GameProfile,
+  readByte: (address: number) => number,
+  only?: { variables?: string[]; flags?: string[] }
+): GameState {
+  const values: Record<string, number> = {};
+  const valueOf = (name: string): number => {
+    if (!(name in values)) {
+      values[name] = readVariable(profile.variables[name], readByte);
+    }
+    return values[name];
+  };
+
+  const state: GameState = { profile: profile.name, variables: {}, labels: {}, flags: {} };
+  const variableNames = only ? only.variables ?? [] : Object.keys(profile.variables);
+  for (const name of variableNames) {
+    state.variables[name] = valueOf(name);
+    const label = profile.variables[name].labels?.[String(state.variables[name])];
+    if (label !== undefined) {
+      state.labels[name] = label;
+    }
+  }
+
+  const flagNames = only ? only.flags ?? [] : Object.keys(profile.flags);
+  for (const name of flagNames) {
+    const flag = profile.flags[name];
+    const test = (t: z.infer<typeof testSchema>): boolean => {
+      const value = valueOf(t.variable);
+      switch (t.op) {
+        case 'equals': return value === t.value;
+        case 'not_equals': return value !== t.value;
+        case 'greater_than': return value > t.value;
+        case 'less_than': return value < t.value;
+        case 'bits_set': return (value & t.value) === t.value;
+        case 'bits_clear': return (value & t.value) === 0;
+      }
+    };
+    state.flags[name] = (!flag.all || flag.all.every(test)) && (!flag.any || flag.any.some(test));
+  }
+  return state;
+}
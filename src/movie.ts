@@ -0,0 +1,210 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SNESButton, SNES_BUTTON_MAP } from './types';
+import { log } from './utils/logger';
+
+export type MovieAnchor = 'power_on' | 'savestate';
+
+/**
+ * Input movie: per-frame pad states for both controller ports, anchored to a
+ * power-on or a save state, with the cheats and frozen RAM it was recorded under.
+ */
+export interface Movie {
+  gameName: string;
+  romHash: string;
+  anchor: MovieAnchor;
+  cheats: string[];
+  // [WRAM address, value] pairs re-applied every frame
+  frozen: Array<[number, number]>;
+  // [player 1, player 2] pad bitmasks (SnesJs button numbers), one entry per frame
+  frames: Array<[number, number]>;
+}
+
+// BizHawk SNES controller mnemonic order
+const PAD_ORDER: Array<[SNESButton, string, string]> = [
+  [SNESButton.UP, 'U', 'Up'],
+  [SNESButton.DOWN, 'D', 'Down'],
+  [SNESButton.LEFT, 'L', 'Left'],
+  [SNESButton.RIGHT, 'R', 'Right'],
+  [SNESButton.SELECT, 's', 'Select'],
+  [SNESButton.START, 'S', 'Start'],
+  [SNESButton.Y, 'Y', 'Y'],
+  [SNESButton.B, 'B', 'B'],
+  [SNESButton.X, 'X', 'X'],
+  [SNESButton.A, 'A', 'A'],
+  [SNESButton.L, 'l', 'L'],
+  [SNESButton.R, 'r', 'R']
+];
+
+const LOG_KEY = 'LogKey:#Reset|Power|' +
+  [1, 2].map(p => '#' + PAD_ORDER.map(([, , name]) => `P${p} ${name}`).join('|')).join('|') + '|';
+
+function formatPad(state: number): string {
+  return PAD_ORDER.map(([button, mnemonic]) => (state & (1 << SNES_BUTTON_MAP[button]) ? mnemonic : '.')).join('');
+}
+
+function parsePad(field: string, lineNumber: number): number {
+  if (field.length !== PAD_ORDER.length) {
+    throw new Error(`Line ${lineNumber}: expected ${PAD_ORDER.length} buttons, got "${field}"`);
+  }
+  let state = 0;
+  PAD_ORDER.forEach(([button], i) => {
+    if (field[i] !== '.' && field[i] !== ' ') {
+      state |= 1 << SNES_BUTTON_MAP[button];
+    }
+  });
+  return state;
+}
+
+/**
+ * Serialize a movie in the style of a BizHawk BK2 (Header.txt followed by
+ * Input Log.txt). Each input line is |console|P1|P2| where pressed buttons
+ * show their mnemonic and released ones show '.', e.g. |..|...S........|............|
+ */
+export function formatMovie(movie: Movie): string {
+  const lines = [
+    'MovieVersion MCP-SNES 1',
+    'Platform SNES',
+    `GameName ${movie.gameName}`,
+    `SHA1 ${movie.romHash}`,
+    `StartsFromSavestate ${movie.anchor === 'savestate' ? 'True' : 'False'}`,
+    ...(movie.cheats.length > 0 ? [`Cheats ${movie.cheats.join(' ')}`] : []),
+    ...(movie.frozen.length > 0
+      ? [`FrozenRam ${movie.frozen.map(([address, value]) => `${address.toString(16).padStart(5, '0')}=${value.toString(16).padStart(2, '0')}`).join(' ')}`]
+      : []),
+    `Frames ${movie.frames.length}`,
+    '[Input]',
+    LOG_KEY,
+    ...movie.frames.map(([p1, p2]) => `|..|${formatPad(p1)}|${formatPad(p2)}|`),
+    '[/Input]'
+  ];
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Parse a movie written by formatMovie
+ */
+export function parseMovie(text: string): Movie {
+  const header: Record<string, string> = {};
+  const frames: Array<[number, number]> = [];
+  let inInput = false;
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (line === '[Input]') {
+      inInput = true;
+    } else if (line === '[/Input]') {
+      inInput = false;
+    } else if (inInput && line.startsWith('|')) {
+      const fields = line.split('|');
+      // ['', console, p1, p2, '']
+      if (fields.length < 4) {
+        throw new Error(`Line ${i + 1}: malformed input line "${line}"`);
+      }
+      frames.push([parsePad(fields[2], i + 1), parsePad(fields[3], i + 1)]);
+    } else if (!inInput && line.trim() !== '') {
+      const space = line.indexOf(' ');
+      if (space > 0) {
+        header[line.slice(0, space)] = line.slice(space + 1).trim();
+      }
+    }
+  });
+
+  if (!header.SHA1) {
+    throw new Error('Movie has no SHA1 header');
+  }
+  const frozen = (header.FrozenRam ?? '').split(' ').filter(Boolean).map((entry): [number, number] => {
+    const match = /^([0-9a-fA-F]{1,5})=([0-9a-fA-F]{1,2})$/.exec(entry);
+    if (!match) {
+      throw new Error(`Malformed FrozenRam entry "${entry}"`);
+    }
+    return [parseInt(match[1], 16), parseInt(match[2], 16)];
+  });
+  return {
+    gameName: header.GameName ?? '',
+    romHash: header.SHA1,
+    anchor: header.StartsFromSavestate === 'True' ? 'savestate' : 'power_on',
+    cheats: (header.Cheats ?? '').split(' ').filter(Boolean),
+    frozen,
+    frames
+  };
+}
+
+/**
+ * Throw unless name is usable as a movie file name
+ */
+export function checkMovieName(name: string): void {
+  if (!/^[\w\-. ()[\]]+$/.test(name)) {
+    throw new Error(`Invalid movie name: ${name}`);
+  }
+}
+
+/**
+ * Movies persisted as <baseDir>/<name>.movie.txt, with the anchoring save
+ * state (for savestate movies) alongside as <name>.movie.state.json
+ */
+export class MovieStore {
+  private baseDir: string;
+
+  constructor(baseDir?: string) {
+    this.baseDir = baseDir || process.env.MOVIES_DIR || path.join(process.cwd(), 'movies');
+  }
+
+  private movieFile(name: string, suffix: string): string {
+    checkMovieName(name);
+    return path.join(this.baseDir, name + suffix);
+  }
+
+  /**
+   * Write a movie and its anchoring save state
+   * @returns Path of the movie file
+   */
+  save(name: string, movie: Movie, state?: object): string {
+    if (!fs.existsSync(this.baseDir)) {
+      fs.mkdirSync(this.baseDir, { recursive: true });
+    }
+    const file = this.movieFile(name, '.movie.txt');
+    fs.writeFileSync(file, formatMovie(movie));
+
+    const stateFile = this.movieFile(name, '.movie.state.json');
+    if (state) {
+      fs.writeFileSync(stateFile, JSON.stringify(state));
+    } else if (fs.existsSync(stateFile)) {
+      fs.unlinkSync(stateFile);
+    }
+    log.info(`Movie saved: ${file} (${movie.frames.length} frames)`);
+    return file;
+  }
+
+  /**
+   * Read a movie and, for savestate movies, its anchoring save state
+   */
+  load(name: string): { movie: Movie; state?: object } {
+    const file = this.movieFile(name, '.movie.txt');
+    if (!fs.existsSync(file)) {
+      throw new Error(`No movie named ${name}`);
+    }
+    const movie = parseMovie(fs.readFileSync(file, 'utf-8'));
+    if (movie.anchor !== 'savestate') {
+      return { movie };
+    }
+
+    const stateFile = this.movieFile(name, '.movie.state.json');
+    if (!fs.existsSync(stateFile)) {
+      throw new Error(`Movie ${name} starts from a save state but ${path.basename(stateFile)} is missing`);
+    }
+    return { movie, state: JSON.parse(fs.readFileSync(stateFile, 'utf-8')) };
+  }
+
+  /**
+   * Names of the stored movies
+   */
+  list(): string[] {
+    if (!fs.existsSync(this.baseDir)) {
+      return [];
+    }
+    return fs.readdirSync(this.baseDir)
+      .filter(f => f.endsWith('.movie.txt'))
+      .map(f => f.slice(0, -'.movie.txt'.length))
+      .sort();
+  }
+}
@@ -0,0 +1,72 @@
+// Operators for conditions on a WRAM value
+export type RamConditionOp =
+  | 'equals'
+  | 'not_equals'
+  | 'crosses_above' // was below value, now at or above it
+  | 'crosses_below' // was above value, now at or below it
+  | 'changed';      // differs from its value when waiting started
+
+export interface RamCondition {
+  address: number;
+  width?: 8 | 16;
+  op: RamConditionOp;
+  value?: number;
+}
+
+/**
+ * Tracks a set of WRAM conditions frame by frame.
+ * Crossings compare against the previous frame, changed against the start.
+ */
+export class RamConditionWatcher {
+  private conditions: RamCondition[];
+  private combine: 'all' | 'any';
+  private read: (condition: RamCondition) => number;
+  private initial: number[];
+  private previous: number[];
+
+  constructor(conditions: RamCondition[], combine: 'all' | 'any', read: (condition: RamCondition) => number) {
+    for (const condition of conditions) {
+      if (condition.op !== 'changed' && condition.value === undefined) {
+        throw new Error(`Condition ${condition.op} on ${condition.address.toString(16)} requires a value`);
+      }
+    }
+    this.conditions = conditions;
+    this.combine = combine;
+    this.read = read;
+    this.initial = conditions.map(read);
+    this.previous = this.initial.slice();
+  }
+
+  /**
+   * Sample current values and check the combined condition
+   * @returns Whether the conditions are satisfied
+   */
+  check(): boolean {
+    const results = this.conditions.map((condition, i) => {
+      const current = this.read(condition);
+      const previous = this.previous[i];
+      const value = condition.value ?? 0;
+      this.previous[i] = current;
+
+      switch (condition.op) {
+        case 'equals': return current === value;
+        case 'not_equals': return current !== value;
+        case 'crosses_above': return previous < value && current >= value;
+        case 'crosses_below': return previous > value && current <= value;
+        case 'changed': return current !== this.initial[i];
+      }
+    });
+    return this.combine === 'all' ? results.every(Boolean) : results.some(Boolean);
+  }
+
+  /**
+   * Most recently sampled values, keyed by hex address
+   */
+  getValues(): Record<string, number> {
+    const values: Record<string, number> = {};
+    this.conditions.forEach((condition, i) => {
+      values[condition.address.toString(16).padStart(6, '0')] = this.previous[i];
+    });
+    return values;
+  }
+}
@@ -0,0 +1,123 @@
+// Comparisons available when narrowing a RAM search
+export type RamSearchComparison =
+  | 'equal'         // unchanged since the last step
+  | 'not_equal'     // changed since the last step
+  | 'increased'
+  | 'decreased'
+  | 'changed_by'    // current - previous === value
+  | 'equal_to';     // current === value
+
+export type RamSearchWidth = 8 | 16;
+
+export interface RamSearchResult {
+  address: number;
+  value: number;
+  previous: number;
+}
+
+/**
+ * Cheat-finder style search over WRAM.
+ *
+ * Starts with every address as a candidate and a snapshot of WRAM. Each
+ * filter step compares current WRAM against the snapshot, keeps the
+ * candidates that satisfy the comparison, then takes a new snapshot.
+ */
+export class RamSearch {
+  readonly width: RamSearchWidth;
+  private snapshot: Uint8Array;
+  private candidates: Uint32Array;
+  private steps: number = 0;
+
+  constructor(ram: Uint8Array, width: RamSearchWidth = 8) {
+    this.width = width;
+    this.snapshot = new Uint8Array(ram);
+
+    // A 16-bit value needs two bytes, so the last address can't hold one
+    const count = width === 16 ? ram.length - 1 : ram.length;
+    this.candidates = new Uint32Array(count);
+    for (let i = 0; i < count; i++) {
+      this.candidates[i] = i;
+    }
+  }
+
+  private readValue(ram: Uint8Array, address: number): number {
+    return this.width === 16 ? ram[address] | (ram[address + 1] << 8) : ram[address];
+  }
+
+  /**
+   * Narrow the candidates against the current WRAM contents
+   * @param ram Current WRAM contents
+   * @param comparison Comparison to apply
+   * @param value Operand for changed_by / equal_to
+   * @returns Number of candidates remaining
+   */
+  filter(ram: Uint8Array, comparison: RamSearchComparison, value?: number): number {
+    if ((comparison === 'changed_by' || comparison === 'equal_to') && value === undefined) {
+      throw new Error(`Comparison ${comparison} requires a value`);
+    }
+
+    const mask = this.width === 16 ? 0xFFFF : 0xFF;
+    const operand = (value ?? 0) & mask;
+    const kept = new Uint32Array(this.candidates.length);
+    let keptCount = 0;
+
+    for (let i = 0; i < this.candidates.length; i++) {
+      const address = this.candidates[i];
+      const current = this.readValue(ram, address);
+      const previous = this.readValue(this.snapshot, address);
+
+      let match: boolean;
+      switch (comparison) {
+        case 'equal': match = current === previous; break;
+        case 'not_equal': match = current !== previous; break;
+        case 'increased': match = current > previous; break;
+        case 'decreased': match = current < previous; break;
+        case 'changed_by': match = ((current - previous) & mask) === operand; break;
+        case 'equal_to': match = current === operand; break;
+        default: throw new Error(`Unknown comparison: ${comparison}`);
+      }
+
+      if (match) {
+        kept[keptCount++] = address;
+      }
+    }
+
+    this.candidates = kept.slice(0, keptCount);
+    this.snapshot = new Uint8Array(ram);
+    this.steps++;
+    return keptCount;
+  }
+
+  /**
+   * Number of candidates remaining
+   */
+  getCount(): number {
+    return this.candidates.length;
+  }
+
+  /**
+   * Number of filter steps applied so far
+   */
+  getSteps(): number {
+    return this.steps;
+  }
+
+  /**
+   * List the first candidates with their current and snapshot values
+   * @param ram Current WRAM contents
+   * @param limit Maximum number of candidates to return
+   */
+  getResults(ram: Uint8Array, limit: number = 50): RamSearchResult[] {
+    const results: RamSearchResult[] = [];
+    const count = Math.min(limit, this.candidates.length);
+    for (let i = 0; i < count; i++) {
+      const address = this.candidates[i];
+      results.push({
+        address,
+        value: this.readValue(ram, address),
+        previous: this.readValue(this.snapshot, address)
+      });
+    }
+    return results;
+  }
+}
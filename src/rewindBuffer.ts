@@ -0,0 +1,205 @@
+import * as zlib from 'zlib';
+import { SNESEmulator } from './snes';
+import { log } from './utils/logger';
+
+interface RewindSnapshot {
+  frame: number;
+  data: Buffer;                   // packed state, deflated once compressed is set
+  compressed: boolean;
+  pads: Array<[number, number]>;  // pad states of every frame since the snapshot
+}
+
+type TypedArray = Uint8Array | Int8Array | Uint16Array | Int16Array | Uint32Array | Int32Array | Float32Array | Float64Array;
+
+const TYPED_ARRAYS: Record<string, new (buffer: ArrayBuffer) => TypedArray> = {
+  Uint8Array, Int8Array, Uint16Array, Int16Array, Uint32Array, Int32Array, Float32Array, Float64Array
+};
+
+/**
+ * Pack a saveStateFast() state into one buffer: the typed arrays as raw
+ * bytes, everything else as JSON (small, since the memories are left out)
+ */
+function packState(state: object): Buffer {
+  const blobs: Buffer[] = [];
+  let offset = 0;
+  const json = JSON.stringify(state, (_key, value) => {
+    if (!ArrayBuffer.isView(value)) return value;
+    const bytes = Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    blobs.push(bytes);
+    offset += bytes.length;
+    return { $typed: value.constructor.name, start: offset - bytes.length, end: offset };
+  });
+  const header = Buffer.alloc(4);
+  header.writeUInt32LE(Buffer.byteLength(json));
+  return Buffer.concat([header, Buffer.from(json), ...blobs]);
+}
+
+function unpackState(packed: Buffer): object {
+  const jsonLength = packed.readUInt32LE(0);
+  const blobStart = 4 + jsonLength;
+  return JSON.parse(packed.toString('utf-8', 4, blobStart), (_key, value) => {
+    if (!value || typeof value.$typed !== 'string') return value;
+    // Copy out so the array is aligned and owns its memory
+    const bytes = packed.subarray(blobStart + value.start, blobStart + value.end);
+    return new TYPED_ARRAYS[value.$typed](new Uint8Array(bytes).buffer);
+  });
+}
+
+/**
+ * Read a whole-number setting from the environment, falling back to the
+ * default (with a warning) when it is mistyped or out of range
+ */
+function envInteger(name: string, fallback: number, min: number): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === '') {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min) {
+    log.warn(`Ignoring ${name}=${raw}: expected a whole number of at least ${min}, using ${fallback}`);
+    return fallback;
+  }
+  return value;
+}
+
+/**
+ * Bounded ring buffer of deflated save states for rewinding.
+ *
+ * A snapshot is taken every REWIND_INTERVAL frames and the pad states of
+ * every frame in between are logged, so rewinding restores the nearest
+ * earlier snapshot and replays forward with the same inputs. Oldest
+ * snapshots are dropped once REWIND_MAX_MB is exceeded. Snapshots copy
+ * memory as typed arrays and are deflated on the zlib thread pool, so
+ * taking one costs the frame loop about a millisecond.
+ */
+export class RewindBuffer {
+  private emulator: SNESEmulator;
+  private snapshots: RewindSnapshot[] = [];
+  private bytes: number = 0;
+  private expectedFrame?: number;
+  // Inputs to apply on the frames being replayed after a rewind
+  private replay: Array<[number, number]> = [];
+
+  readonly interval: number;
+  readonly maxBytes: number;
+
+  constructor(emulator: SNESEmulator, interval?: number, maxMb?: number) {
+    this.emulator = emulator;
+    this.interval = interval ?? envInteger('REWIND_INTERVAL', 60, 0);
+    this.maxBytes = (maxMb ?? envInteger('REWIND_MAX_MB', 64, 1)) * 1024 * 1024;
+  }
+
+  /**
+   * Call before every emulated frame: applies replayed inputs, takes a
+   * snapshot when due and logs the frame's pad states
+   */
+  onFrame(): void {
+    if (this.interval <= 0) return;
+
+    const frame = this.emulator.getFrameCount();
+    if (frame !== this.expectedFrame) {
+      // A state was loaded or the console was reset; history no longer applies
+      this.clear();
+    }
+    this.expectedFrame = frame + 1;
+
+    const replayed = this.replay.shift();
+    if (replayed) {
+      this.emulator.setPadStates(replayed[0], replayed[1]);
+    }
+
+    let last = this.snapshots[this.snapshots.length - 1];
+    if (!last || frame - last.frame >= this.interval) {
+      last = { frame, data: packState(this.emulator.saveStateFast()), compressed: false, pads: [] };
+      this.snapshots.push(last);
+      this.bytes += last.data.length;
+      this.compress(last);
+      while (this.bytes > this.maxBytes && this.snapshots.length > 1) {
+        this.bytes -= this.snapshots.shift()!.data.length;
+      }
+    }
+    last.pads.push(this.emulator.getPadStates());
+  }
+
+  /**
+   * Deflate a snapshot in the background; it is usable uncompressed meanwhile
+   */
+  private compress(snapshot: RewindSnapshot): void {
+    zlib.deflate(snapshot.data, { level: 1 }, (error, data) => {
+      // The snapshot may have been dropped or rewound past in the meantime
+      if (error || !this.snapshots.includes(snapshot)) return;
+      this.bytes += data.length - snapshot.data.length;
+      snapshot.data = data;
+      snapshot.compressed = true;
+    });
+  }
+
+  /**
+   * Whether the next frames are being replayed after a rewind
+   */
+  isReplaying(): boolean {
+    return this.replay.length > 0;
+  }
+
+  /**
+   * Drop all history
+   */
+  clear(): void {
+    this.snapshots = [];
+    this.bytes = 0;
+    this.replay = [];
+    this.expectedFrame = undefined;
+  }
+
+  /**
+   * Restore the nearest snapshot before the target frame and queue the
+   * inputs needed to replay up to it. The caller then runs replayFrames frames.
+   * @param frames How many frames to go back
+   * @returns Frames actually rewound (clamped to the history) and frames to replay
+   */
+  rewind(frames: number): { rewound: number; replayFrames: number } {
+    const current = this.emulator.getFrameCount();
+    if (this.snapshots.length === 0 || this.expectedFrame !== current) {
+      throw new Error('No rewind history');
+    }
+
+    // Replay at least one frame so the screen is rendered at the target
+    const oldest = this.snapshots[0];
+    const target = Math.max(current - frames, oldest.frame + 1);
+    if (target >= current) {
+      throw new Error('No rewind history');
+    }
+
+    let index = this.snapshots.length - 1;
+    while (this.snapshots[index].frame >= target) {
+      index--;
+    }
+    const snapshot = this.snapshots[index];
+    const replayFrames = target - snapshot.frame;
+
+    this.emulator.loadState(unpackState(snapshot.compressed ? zlib.inflateSync(snapshot.data) : snapshot.data));
+    this.replay = snapshot.pads.slice(0, replayFrames);
+
+    // Later history is re-logged as the frames are replayed
+    for (const dropped of this.snapshots.splice(index + 1)) {
+      this.bytes -= dropped.data.length;
+    }
+    snapshot.pads = [];
+    this.expectedFrame = snapshot.frame;
+
+    log.verbose(`Rewound ${current - target} frames to snapshot at frame ${snapshot.frame}`);
+    return { rewound: current - target, replayFrames };
+  }
+
+  /**
+   * Frames of history available and memory used
+   */
+  getStats(): { frames: number; snapshots: number; bytes: number } {
+    const oldest = this.snapshots[0];
+    return {
+      frames: oldest && this.expectedFrame !== undefined ? this.expectedFrame - oldest.frame - 1 : 0,
+      snapshots: this.snapshots.length,
+      bytes: this.bytes
+    };
+  }
+}
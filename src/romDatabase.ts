@@ -0,0 +1,169 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { crc32 } from './utils/crc32';
+import { log } from './utils/logger';
+import { readRomFile, splitRomPath } from './romFile';
+
+export type DumpStatus = 'verified' | 'good' | 'bad_dump' | 'unknown';
+
+// What the DAT files say about one ROM file
+export interface RomIdentification {
+  status: DumpStatus;
+  canonicalName?: string;
+  region?: string;
+  revision?: string;
+  dat?: string;
+  crc32: string;
+  sha1: string;
+}
+
+interface DatEntry {
+  name: string;
+  status: DumpStatus;
+  dat: string;
+}
+
+// No-Intro region tags, as they appear in the first parenthesized group
+const REGION_TAG = /^(World|Europe|Asia|Australia|Brazil|Canada|China|France|Germany|Hong Kong|Italy|Japan|Korea|Netherlands|Spain|Sweden|Taiwan|USA|Unknown)(, [A-Za-z ]+)*$/;
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' };
+
+function decodeXml(text: string): string {
+  return text.replace(/&(amp|lt|gt|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (_, entity: string) => {
+    if (entity[0] !== '#') return XML_ENTITIES[entity];
+    return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+  });
+}
+
+function attribute(tag: string, name: string): string | undefined {
+  const match = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * Split a No-Intro name like "Chrono Trigger (USA) (Rev 1)" into region and revision
+ */
+export function parseDatName(name: string): { region?: string; revision?: string } {
+  const tags = Array.from(name.matchAll(/\(([^)]+)\)/g), match => match[1]);
+  const region = tags.find(tag => REGION_TAG.test(tag));
+  const revision = tags.find(tag => /^(Rev [0-9A-Z.]+|v\d+(\.\d+)*)$/.test(tag));
+  return { region, revision };
+}
+
+/**
+ * Matches ROM files by hash against No-Intro / Redump-style XML DAT files
+ * in DATS_DIR (default ./dats). DATs are re-read when the directory
+ * changes, and file hashes are cached by size and modification time.
+ */
+export class RomDatabase {
+  private baseDir: string;
+  private bySha1 = new Map<string, DatEntry>();
+  private byCrc = new Map<string, DatEntry>();
+  private datSignature?: string;
+  private hashCache = new Map<string, { stamp: string; crc32: string; sha1: string }>();
+
+  constructor(baseDir?: string) {
+    this.baseDir = baseDir || process.env.DATS_DIR || path.join(process.cwd(), 'dats');
+  }
+
+  /**
+   * Look up ROM data (copier header already removed) by its hashes
+   * @returns Identification, or undefined if there are no DATs to check against
+   */
+  identify(hashes: { crc32: string; sha1: string }): RomIdentification | undefined {
+    this.refresh();
+    if (this.bySha1.size + this.byCrc.size === 0) {
+      return undefined;
+    }
+    // Prefer SHA-1; some DATs only carry CRCs
+    const entry = this.bySha1.get(hashes.sha1) ?? this.byCrc.get(hashes.crc32);
+    if (!entry) {
+      return { status: 'unknown', ...hashes };
+    }
+    return { status: entry.status, canonicalName: entry.name, ...parseDatName(entry.name), dat: entry.dat, ...hashes };
+  }
+
+  /**
+   * Hash a ROM file (unpacking .zip/.gz) and look it up
+   */
+  identifyFile(romPath: string): RomIdentification | undefined {
+    const { crc32, sha1 } = this.hashFile(romPath);
+    return this.identify({ crc32, sha1 });
+  }
+
+  private hashFile(romPath: string): { crc32: string; sha1: string } {
+    const stat = fs.statSync(splitRomPath(romPath).file);
+    const stamp = `${stat.size}:${stat.mtimeMs}`;
+    const cached = this.hashCache.get(romPath);
+    if (cached && cached.stamp === stamp) {
+      return cached;
+    }
+
+    let data: Uint8Array = readRomFile(romPath);
+    // DATs list headerless ROMs
+    if (data.length % 1024 === 512) {
+      data = data.subarray(512);
+    }
+    const hashes = {
+      stamp,
+      crc32: crc32(data).toString(16).padStart(8, '0'),
+      sha1: crypto.createHash('sha1').update(data).digest('hex')
+    };
+    this.hashCache.set(romPath, hashes);
+    return hashes;
+  }
+
+  /**
+   * Reload the DAT files if any were added, removed or changed
+   */
+  private refresh(): void {
+    const files = fs.existsSync(this.baseDir)
+      ? fs.readdirSync(this.baseDir).filter(file => /\.(dat|xml)$/i.test(file)).sort()
+      : [];
+    const signature = files
+      .map(file => `${file}:${fs.statSync(path.join(this.baseDir, file)).mtimeMs}`)
+      .join('|');
+    if (signature === this.datSignature) {
+      return;
+    }
+
+    this.datSignature = signature;
+    this.bySha1.clear();
+    this.byCrc.clear();
+    for (const file of files) {
+      try {
+        const count = this.loadDat(path.join(this.baseDir, file));
+        log.info(`Loaded ${count} ROM entries from DAT ${file}`);
+      } catch (error) {
+        log.warn(`Ignoring unreadable DAT file ${file}`, String(error));
+      }
+    }
+  }
+
+  private loadDat(file: string): number {
+    const xml = fs.readFileSync(file, 'utf-8');
+    const datName = /<header>[\s\S]*?<name>([^<]*)<\/name>/.exec(xml)?.[1];
+    const dat = datName ? decodeXml(datName) : path.basename(file);
+    let count = 0;
+
+    // Logiqx format: <game name="..."> (or <machine>) holding <rom .../> entries
+    for (const game of xml.matchAll(/<(game|machine)\s(?:[^>]*\s)?name="([^"]*)"[^>]*>([\s\S]*?)<\/\1>/g)) {
+      const name = decodeXml(game[2]);
+      for (const rom of game[3].matchAll(/<rom\s[^>]*>/g)) {
+        const status = attribute(rom[0], 'status');
+        const entry: DatEntry = {
+          name,
+          status: status === 'verified' ? 'verified' : status === 'baddump' ? 'bad_dump' : 'good',
+          dat
+        };
+        const sha1 = attribute(rom[0], 'sha1')?.toLowerCase();
+        const crc = attribute(rom[0], 'crc')?.toLowerCase();
+        if (sha1) this.bySha1.set(sha1, entry);
+        if (crc) this.byCrc.set(crc.padStart(8, '0'), entry);
+        count++;
+      }
+    }
+    return count;
+  }
+}
@@ -0,0 +1,206 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { crc32 } from './utils/crc32';
+
+// Raw ROM images, and the containers they can be stored in
+const ROM_EXTENSION = /\.(smc|sfc)$/i;
+const ARCHIVE_EXTENSION = /\.(zip|gz)$/i;
+const GZIPPED_ROM = /\.(smc|sfc)\.gz$/i;
+
+// Largest real cartridge (8 MB ExHiROM) plus a copier header; anything an
+// archive unpacks to beyond this is not a SNES ROM, or is a compression bomb
+const MAX_ROM_SIZE = 8 * 1024 * 1024 + 512;
+
+/**
+ * A ROM path may point inside a zip as "archive.zip#entry.sfc", the same
+ * convention RetroArch uses, so each ROM of a multi-ROM zip has its own path.
+ */
+export function splitRomPath(romPath: string): { file: string; entry?: string } {
+  const match = /^(.*\.zip)#(.+)$/i.exec(romPath);
+  return match ? { file: match[1], entry: match[2] } : { file: romPath };
+}
+
+/**
+ * Whether the file a ROM path refers to exists (entries are checked on load)
+ */
+export function romFileExists(romPath: string): boolean {
+  return fs.existsSync(splitRomPath(romPath).file);
+}
+
+/**
+ * Name of a ROM without directory, container or ROM extension, used to name
+ * its saves, cheats and tables: "roms/Game (USA).sfc.gz" gives "Game (USA)"
+ */
+export function romBaseName(romPath: string): string {
+  const { file, entry } = splitRomPath(romPath);
+  const name = path.basename(entry ?? file);
+  if (!entry && ARCHIVE_EXTENSION.test(name)) {
+    return name.replace(ARCHIVE_EXTENSION, '').replace(ROM_EXTENSION, '');
+  }
+  return name.replace(/\.[^.]+$/, '');
+}
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  flags: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+/**
+ * Read a zip's central directory
+ */
+function readZipDirectory(zip: Buffer): ZipEntry[] {
+  // The end-of-central-directory record sits in the last 22 bytes plus up to 64 KB of comment
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 22 - 0xFFFF); i--) {
+    if (zip.readUInt32LE(i) === 0x06054B50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a zip file (no central directory)');
+  }
+
+  const count = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+  if (offset === 0xFFFFFFFF) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (zip.readUInt32LE(offset) !== 0x02014B50) {
+      throw new Error('Corrupt zip central directory');
+    }
+    const nameLength = zip.readUInt16LE(offset + 28);
+    entries.push({
+      flags: zip.readUInt16LE(offset + 8),
+      method: zip.readUInt16LE(offset + 10),
+      crc: zip.readUInt32LE(offset + 16),
+      compressedSize: zip.readUInt32LE(offset + 20),
+      size: zip.readUInt32LE(offset + 24),
+      localHeaderOffset: zip.readUInt32LE(offset + 42),
+      name: zip.toString('utf-8', offset + 46, offset + 46 + nameLength)
+    });
+    offset += 46 + nameLength + zip.readUInt16LE(offset + 30) + zip.readUInt16LE(offset + 32);
+  }
+  return entries;
+}
+
+/**
+ * Run a zlib call capped with maxOutputLength, reporting an oversized result by name
+ */
+function inflateLimited(inflate: () => Buffer, name: string): Buffer {
+  try {
+    return inflate();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`${name} unpacks to more than ${MAX_ROM_SIZE} bytes, too large for a SNES ROM`);
+    }
+    throw error;
+  }
+}
+
+function extractZipEntry(zip: Buffer, entry: ZipEntry): Buffer {
+  if (entry.flags & 1) {
+    throw new Error(`${entry.name} is encrypted`);
+  }
+  const local = entry.localHeaderOffset;
+  if (zip.readUInt32LE(local) !== 0x04034B50) {
+    throw new Error(`Corrupt zip entry ${entry.name}`);
+  }
+  const start = local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28);
+  const stored = zip.subarray(start, start + entry.compressedSize);
+
+  if (entry.size > MAX_ROM_SIZE) {
+    throw new Error(`${entry.name} is too large for a SNES ROM (${entry.size} bytes)`);
+  }
+
+  let data: Buffer;
+  if (entry.method === 0) {
+    data = Buffer.from(stored);
+  } else if (entry.method === 8) {
+    data = inflateLimited(() => zlib.inflateRawSync(stored, { maxOutputLength: MAX_ROM_SIZE }), entry.name);
+  } else {
+    throw new Error(`${entry.name} uses unsupported zip compression method ${entry.method}`);
+  }
+  if (data.length !== entry.size || crc32(data) !== entry.crc) {
+    throw new Error(`${entry.name} failed its zip CRC check`);
+  }
+  return data;
+}
+
+/**
+ * Names of the SNES ROMs (.smc/.sfc) inside a zip
+ */
+export function listZipRoms(zipPath: string): string[] {
+  return readZipDirectory(fs.readFileSync(zipPath))
+    .filter(entry => ROM_EXTENSION.test(entry.name) && !entry.name.endsWith('/'))
+    .map(entry => entry.name);
+}
+
+/**
+ * Read a ROM image, unpacking it from a .zip or .gz if needed
+ * @param romPath Plain ROM, .gz, .zip holding one ROM, or "archive.zip#entry"
+ */
+export function readRomFile(romPath: string): Buffer {
+  const { file, entry } = splitRomPath(romPath);
+
+  if (/\.zip$/i.test(file)) {
+    const zip = fs.readFileSync(file);
+    const entries = readZipDirectory(zip);
+    const roms = entries.filter(e => ROM_EXTENSION.test(e.name));
+    const chosen = entry !== undefined
+      ? entries.find(e => e.name === entry)
+      : roms.length === 1 ? roms[0] : undefined;
+
+    if (!chosen) {
+      if (entry !== undefined) {
+        throw new Error(`${path.basename(file)} has no entry ${entry}`);
+      }
+      throw new Error(roms.length === 0
+        ? `${path.basename(file)} contains no .smc/.sfc ROM`
+        : `${path.basename(file)} contains several ROMs; choose one as ${path.basename(file)}#<name>: ${roms.map(e => e.name).join(', ')}`);
+    }
+    return extractZipEntry(zip, chosen);
+  }
+
+  if (/\.gz$/i.test(file)) {
+    const gz = fs.readFileSync(file);
+    return inflateLimited(() => zlib.gunzipSync(gz, { maxOutputLength: MAX_ROM_SIZE }), path.basename(file));
+  }
+  return fs.readFileSync(file);
+}
+
+/**
+ * List the ROMs in a directory: plain and gzipped ROM files, and every ROM
+ * inside each zip (as "archive.zip#entry" when a zip holds more than one)
+ * @param onError Called for zips that can't be read; they are left out
+ */
+export function listRomFiles(dir: string, onError?: (file: string, error: unknown) => void): Array<{ name: string; path: string }> {
+  const roms: Array<{ name: string; path: string }> = [];
+  for (const file of fs.readdirSync(dir).sort()) {
+    const filePath = path.join(dir, file);
+    if (ROM_EXTENSION.test(file) || GZIPPED_ROM.test(file)) {
+      roms.push({ name: file, path: filePath });
+    } else if (/\.zip$/i.test(file)) {
+      try {
+        const entries = listZipRoms(filePath);
+        if (entries.length === 1) {
+          roms.push({ name: file, path: filePath });
+        } else {
+          roms.push(...entries.map(entry => ({ name: `${file}#${entry}`, path: `${filePath}#${entry}` })));
+        }
+      } catch (error) {
+        onError?.(filePath, error);
+      }
+    }
+  }
+  return roms;
+}
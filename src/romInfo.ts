@@ -0,0 +1,131 @@
+import * as crypto from 'crypto';
+import { RomInfo } from './types';
+import { crc32 } from './utils/crc32';
+
+// Country byte ($FFD9) to region name and video standard
+const REGIONS: Array<[string, 'NTSC' | 'PAL']> = [
+  ['Japan', 'NTSC'], ['USA', 'NTSC'], ['Europe', 'PAL'], ['Scandinavia', 'PAL'],
+  ['Finland', 'PAL'], ['Denmark', 'PAL'], ['France', 'PAL'], ['Netherlands', 'PAL'],
+  ['Spain', 'PAL'], ['Germany', 'PAL'], ['Italy', 'PAL'], ['China', 'PAL'],
+  ['Indonesia', 'PAL'], ['Korea', 'NTSC'], ['International', 'NTSC'], ['Canada', 'NTSC'],
+  ['Brazil', 'NTSC'], ['Australia', 'PAL']
+];
+
+// High nibble of the chipset byte ($FFD6) when a coprocessor is present
+const COPROCESSORS: Record<number, string> = {
+  0x0: 'DSP-n', 0x1: 'SuperFX', 0x2: 'OBC1', 0x3: 'SA-1', 0x4: 'S-DD1', 0x5: 'S-RTC',
+  0xE: 'Super Game Boy / Satellaview'
+};
+
+// Custom chips ($Fx) are named by the subtype byte just before the header ($FFBF)
+const CUSTOM_COPROCESSORS: Record<number, string> = {
+  0x00: 'SPC7110', 0x01: 'ST010/ST011', 0x02: 'ST018', 0x10: 'CX4'
+};
+
+/**
+ * Name the coprocessor a chipset byte declares, if any
+ * @param subtype Byte at $FFBF, which identifies custom ($Fx) chips
+ */
+function coprocessorName(chips: number, subtype: number): string | undefined {
+  const kind = chips & 0x0F;
+  // 3-6: coprocessor with optional RAM/battery; 9: SPC7110 with RTC
+  if ((kind < 3 || kind > 6) && kind !== 9) {
+    return undefined;
+  }
+  if (chips >> 4 === 0xF) {
+    return CUSTOM_COPROCESSORS[subtype] ?? `custom chip ${subtype.toString(16).toUpperCase().padStart(2, '0')}`;
+  }
+  return COPROCESSORS[chips >> 4] ?? `coprocessor ${(chips >> 4).toString(16).toUpperCase()}`;
+}
+
+/**
+ * Describe the chipset byte in words, e.g. "ROM + RAM + battery"
+ */
+function describeChipset(chips: number, coprocessor?: string): string {
+  const kind = chips & 0x0F;
+  if (kind > 6 && kind !== 9) {
+    return `unknown (${chips.toString(16).toUpperCase().padStart(2, '0')})`;
+  }
+  const parts = ['ROM'];
+  if (coprocessor) {
+    parts.push(coprocessor);
+  }
+  if (kind === 1 || kind === 2 || kind === 4 || kind === 5 || kind === 9) {
+    parts.push('RAM');
+  }
+  if (kind === 2 || kind === 5 || kind === 6 || kind === 9) {
+    parts.push('battery');
+  }
+  if (kind === 9) {
+    parts.push('RTC');
+  }
+  return parts.join(' + ');
+}
+
+/**
+ * Checksum the way the header's is computed: a 16-bit sum of every byte,
+ * with a ROM that isn't a power of two in size padded by mirroring its
+ * last part (e.g. 1.5 MB counts as 1 MB + 512 KB twice)
+ */
+function computeChecksum(data: Uint8Array): number {
+  let base = 1;
+  while (base * 2 <= data.length) base *= 2;
+
+  let sum = 0;
+  for (let i = 0; i < base; i++) {
+    sum += data[i];
+  }
+  const rest = data.length - base;
+  if (rest > 0) {
+    let restSum = 0;
+    for (let i = base; i < data.length; i++) {
+      restSum += data[i];
+    }
+    sum += restSum * Math.floor(base / rest);
+  }
+  return sum & 0xFFFF;
+}
+
+// Where each mapping keeps the internal header
+const HEADER_OFFSETS: Record<RomInfo['mapping'], number> = {
+  LoROM: 0x7FC0,
+  HiROM: 0xFFC0,
+  ExHiROM: 0x40FFC0
+};
+
+/**
+ * Decode the internal header of a ROM and fingerprint its data
+ * @param data ROM data with any copier header already removed
+ * @param mapping Mapping the ROM was loaded with, which decides where the header is read
+ * @param copierHeader Whether a 512-byte copier header was stripped
+ */
+export function readRomInfo(data: Uint8Array, mapping: RomInfo['mapping'], copierHeader: boolean): RomInfo {
+  const at = HEADER_OFFSETS[mapping];
+  const byte = (offset: number) => data[at + offset] ?? 0;
+  const [region, video] = REGIONS[byte(0x19)] ?? [`unknown (${byte(0x19)})`, 'NTSC'];
+  const coprocessor = coprocessorName(byte(0x16), byte(-1));
+
+  return {
+    title: Buffer.from(data.subarray(at, at + 21)).toString('latin1').replace(/[\x00 ]+$/, ''),
+    mapping,
+    mapMode: byte(0x15),
+    fastRom: (byte(0x15) & 0x10) !== 0,
+    chipsetByte: byte(0x16),
+    chipset: describeChipset(byte(0x16), coprocessor),
+    coprocessor,
+    declaredRomSize: 0x400 << byte(0x17),
+    actualRomSize: data.length,
+    sramSize: byte(0x18) > 0 ? 0x400 << byte(0x18) : 0,
+    country: byte(0x19),
+    region,
+    video,
+    developerId: byte(0x1A),
+    version: byte(0x1B),
+    complement: byte(0x1C) | (byte(0x1D) << 8),
+    checksum: byte(0x1E) | (byte(0x1F) << 8),
+    computedChecksum: computeChecksum(data),
+    crc32: crc32(data),
+    sha1: crypto.createHash('sha1').update(data).digest('hex'),
+    copierHeader
+  };
+}
@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { crc32 } from './utils/crc32';
+import { romBaseName, splitRomPath } from './romFile';
+
+export type PatchFormat = 'ips' | 'bps' | 'ups';
+
+// Patch extensions in the order they're looked for next to a ROM
+const PATCH_EXTENSIONS: PatchFormat[] = ['bps', 'ups', 'ips'];
+
+/**
+ * Reads the variable-length integers used by BPS and UPS
+ */
+class PatchReader {
+  private data: Buffer;
+  offset: number;
+
+  constructor(data: Buffer, offset: number) {
+    this.data = data;
+    this.offset = offset;
+  }
+
+  byte(): number {
+    if (this.offset >= this.data.length) {
+      throw new Error('Patch is truncated');
+    }
+    return this.data[this.offset++];
+  }
+
+  number(): number {
+    let value = 0;
+    let shift = 1;
+    for (;;) {
+      const x = this.byte();
+      value += (x & 0x7F) * shift;
+      if (x & 0x80) return value;
+      shift *= 128;
+      value += shift;
+    }
+  }
+}
+
+/**
+ * Check the three CRC-32s that end a BPS or UPS patch
+ */
+function checkFooter(source: Buffer, patch: Buffer, format: string): { targetCrc: number } {
+  const footer = patch.length - 12;
+  if (footer < 4) {
+    throw new Error(`${format} patch is truncated`);
+  }
+  if (crc32(patch.subarray(0, footer + 8)) !== patch.readUInt32LE(footer + 8)) {
+    throw new Error(`${format} patch is corrupt (patch CRC mismatch)`);
+  }
+  const sourceCrc = patch.readUInt32LE(footer);
+  if (crc32(source) !== sourceCrc) {
+    throw new Error(`${format} patch is for a different ROM (expected source CRC32 ${sourceCrc.toString(16).padStart(8, '0')}, got ${crc32(source).toString(16).padStart(8, '0')})`);
+  }
+  return { targetCrc: patch.readUInt32LE(footer + 4) };
+}
+
+function applyIps(source: Buffer, patch: Buffer): Buffer {
+  let target = Buffer.from(source);
+  let offset = 5;
+  for (;;) {
+    if (offset + 3 > patch.length) {
+      throw new Error('IPS patch is truncated');
+    }
+    const address = patch.readUIntBE(offset, 3);
+    offset += 3;
+    if (address === 0x454F46) {  // "EOF"
+      break;
+    }
+
+    let size = patch.readUInt16BE(offset);
+    offset += 2;
+    let fill: number | undefined;
+    if (size === 0) {
+      // Run-length record: size, then one byte repeated
+      size = patch.readUInt16BE(offset);
+      fill = patch[offset + 2];
+      offset += 3;
+    }
+
+    if (address + size > target.length) {
+      const grown = Buffer.alloc(address + size);
+      target.copy(grown);
+      target = grown;
+    }
+    if (fill !== undefined) {
+      target.fill(fill, address, address + size);
+    } else {
+      patch.copy(target, address, offset, offset + size);
+      offset += size;
+    }
+  }
+
+  // Optional truncation extension: new 3-byte size after EOF
+  if (offset + 3 <= patch.length) {
+    target = target.subarray(0, patch.readUIntBE(offset, 3));
+  }
+  return target;
+}
+
+function applyBps(source: Buffer, patch: Buffer): Buffer {
+  const { targetCrc } = checkFooter(source, patch, 'BPS');
+  const reader = new PatchReader(patch, 4);
+  reader.number();  // source size, covered by the source CRC
+  const target = Buffer.alloc(reader.number());
+  const metadataSize = reader.number();
+  reader.offset += metadataSize;  // skip metadata
+
+  const end = patch.length - 12;
+  let output = 0;
+  let sourceRelative = 0;
+  let targetRelative = 0;
+  while (reader.offset < end) {
+    const action = reader.number();
+    const length = Math.floor(action / 4) + 1;
+    if (output + length > target.length) {
+      throw new Error('BPS patch writes past the end of the target');
+    }
+
+    switch (action & 3) {
+      case 0: // SourceRead
+        source.copy(target, output, output, output + length);
+        output += length;
+        break;
+      case 1: // TargetRead
+        patch.copy(target, output, reader.offset, reader.offset + length);
+        reader.offset += length;
+        output += length;
+        break;
+      case 2: { // SourceCopy
+        const delta = reader.number();
+        sourceRelative += (delta & 1 ? -1 : 1) * Math.floor(delta / 2);
+        source.copy(target, output, sourceRelative, sourceRelative + length);
+        sourceRelative += length;
+        output += length;
+        break;
+      }
+      case 3: { // TargetCopy, byte by byte since the ranges may overlap
+        const delta = reader.number();
+        targetRelative += (delta & 1 ? -1 : 1) * Math.floor(delta / 2);
+        for (let i = 0; i < length; i++) {
+          target[output++] = target[targetRelative++];
+        }
+        break;
+      }
+    }
+  }
+
+  if (crc32(target) !== targetCrc) {
+    throw new Error('BPS patch produced the wrong result (target CRC mismatch)');
+  }
+  return target;
+}
+
+function applyUps(source: Buffer, patch: Buffer): Buffer {
+  const { targetCrc } = checkFooter(source, patch, 'UPS');
+  const reader = new PatchReader(patch, 4);
+  reader.number();  // source size, covered by the source CRC
+  const target = Buffer.alloc(reader.number());
+  source.copy(target, 0, 0, Math.min(source.length, target.length));
+
+  const end = patch.length - 12;
+  let position = 0;
+  while (reader.offset < end) {
+    position += reader.number();
+    // XOR bytes against the source until a zero byte
+    for (;;) {
+      const x = reader.byte();
+      if (x === 0) {
+        position++;
+        break;
+      }
+      if (position < target.length) {
+        target[position] = (position < source.length ? source[position] : 0) ^ x;
+      }
+      position++;
+    }
+  }
+
+  if (crc32(target) !== targetCrc) {
+    throw new Error('UPS patch produced the wrong result (target CRC mismatch)');
+  }
+  return target;
+}
+
+/**
+ * Work out a patch's format from its magic bytes
+ */
+export function detectPatchFormat(patch: Buffer): PatchFormat {
+  const magic = patch.toString('latin1', 0, 5);
+  if (magic === 'PATCH') return 'ips';
+  if (magic.startsWith('BPS1')) return 'bps';
+  if (magic.startsWith('UPS1')) return 'ups';
+  throw new Error('Unrecognized patch format (expected IPS, BPS or UPS)');
+}
+
+/**
+ * Apply an IPS, BPS or UPS patch in memory. BPS and UPS check the ROM
+ * against the patch's source CRC; if that fails on a ROM with a 512-byte
+ * copier header, the patch is retried on the ROM without it. IPS has no
+ * checksum, so its offsets are taken to be headerless and any copier
+ * header is dropped first.
+ * @returns The patched ROM and the patch format
+ */
+export function applyPatch(rom: Buffer, patch: Buffer): { data: Buffer; format: PatchFormat } {
+  const format = detectPatchFormat(patch);
+  if (format === 'ips') {
+    return { data: applyIps(rom.length % 1024 === 512 ? rom.subarray(512) : rom, patch), format };
+  }
+
+  // Patches are usually made against headerless ROMs
+  const sourceCrc = patch.length >= 16 ? patch.readUInt32LE(patch.length - 12) : undefined;
+  const source = rom.length % 1024 === 512 && crc32(rom) !== sourceCrc && crc32(rom.subarray(512)) === sourceCrc
+    ? rom.subarray(512)
+    : rom;
+  return { data: format === 'bps' ? applyBps(source, patch) : applyUps(source, patch), format };
+}
+
+/**
+ * Find a patch next to a ROM with the same base name
+ * (roms/Game.sfc picks up roms/Game.bps, .ups or .ips)
+ */
+export function findAutoPatch(romPath: string): string | undefined {
+  const dir = path.dirname(splitRomPath(romPath).file);
+  const baseName = romBaseName(romPath);
+  for (const ext of PATCH_EXTENSIONS) {
+    const candidate = path.join(dir, `${baseName}.${ext}`);
+    if (fs.existsSync(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './utils/logger';
+import { romBaseName } from './romFile';
+
+// Metadata written next to each save state
+export interface SaveStateMeta {
+  slot: number;
+  romName: string;
+  romHash: string;
+  frame: number;
+  timestamp: string;
+}
+
+/**
+ * On-disk save-state slots, one directory per ROM.
+ *
+ * Layout: <baseDir>/<rom basename>/slot<N>.state.json
+ *                                  slot<N>.meta.json
+ *                                  slot<N>.png
+ */
+export class SaveStateStore {
+  private baseDir: string;
+
+  constructor(baseDir?: string) {
+    this.baseDir = baseDir || process.env.SAVE_STATE_DIR || path.join(process.cwd(), 'saves');
+  }
+
+  /**
+   * Directory holding the slots for a ROM
+   * @param romPath Path of the ROM file
+   */
+  getRomDir(romPath: string): string {
+    const romName = romBaseName(romPath);
+    return path.join(this.baseDir, romName.replace(/[^\w\-. ()[\]]/g, '_'));
+  }
+
+  private slotFile(romPath: string, slot: number, suffix: string): string {
+    return path.join(this.getRomDir(romPath), `slot${slot}${suffix}`);
+  }
+
+  /**
+   * Write a state, its metadata and its thumbnail to disk
+   */
+  save(romPath: string, meta: SaveStateMeta, state: object, thumbnail: Buffer): void {
+    const dir = this.getRomDir(romPath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+      log.info(`Created save state directory: ${dir}`);
+    }
+
+    fs.writeFileSync(this.slotFile(romPath, meta.slot, '.state.json'), JSON.stringify(state));
+    fs.writeFileSync(this.slotFile(romPath, meta.slot, '.png'), thumbnail);
+    // Metadata last, so a slot only shows up once the state is complete
+    fs.writeFileSync(this.slotFile(romPath, meta.slot, '.meta.json'), JSON.stringify(meta, null, 2));
+  }
+
+  /**
+   * Read the metadata of a slot
+   * @returns Metadata, or undefined if the slot is empty
+   */
+  readMeta(romPath: string, slot: number): SaveStateMeta | undefined {
+    const metaPath = this.slotFile(romPath, slot, '.meta.json');
+    if (!fs.existsSync(metaPath)) {
+      return undefined;
+    }
+    return JSON.parse(fs.readFileSync(metaPath, 'utf-8')) as SaveStateMeta;
+  }
+
+  /**
+   * Read the emulator state of a slot
+   */
+  readState(romPath: string, slot: number): object {
+    const statePath = this.slotFile(romPath, slot, '.state.json');
+    if (!fs.existsSync(statePath)) {
+      throw new Error(`Save state file missing for slot ${slot}: ${statePath}`);
+    }
+    return JSON.parse(fs.readFileSync(statePath, 'utf-8'));
+  }
+
+  /**
+   * Path of a slot's thumbnail PNG
+   */
+  getThumbnailPath(romPath: string, slot: number): string {
+    return this.slotFile(romPath, slot, '.png');
+  }
+
+  /**
+   * List the metadata of every slot saved for a ROM, ordered by slot
+   */
+  list(romPath: string): SaveStateMeta[] {
+    const dir = this.getRomDir(romPath);
+    if (!fs.existsSync(dir)) {
+      return [];
+    }
+
+    const slots: SaveStateMeta[] = [];
+    for (const file of fs.readdirSync(dir)) {
+      const match = /^slot(\d+)\.meta\.json$/.exec(file);
+      if (!match) continue;
+      try {
+        const meta = this.readMeta(romPath, parseInt(match[1], 10));
+        if (meta) slots.push(meta);
+      } catch (error) {
+        log.warn(`Skipping unreadable save state metadata: ${file}`, String(error));
+      }
+    }
+    return slots.sort((a, b) => a.slot - b.slot);
+  }
+}
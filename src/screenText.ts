@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BgLayerState, PpuBgState } from './types';
+import { log } from './utils/logger';
+import { romBaseName } from './romFile';
+
+// One visible tilemap entry; x/y is where it starts on screen (clamped to 0)
+export interface TileCell {
+  x: number;
+  tile: number;
+}
+
+export interface TileRow {
+  y: number;
+  cells: TileCell[];
+}
+
+export interface TextLine {
+  x: number;
+  y: number;
+  text: string;
+}
+
+/**
+ * Read the tilemap entries visible on screen for one background layer, row by row.
+ * Uses the scroll registers as they are at the end of the frame, so parts of a
+ * layer scrolled mid-frame (e.g. a status bar split with HDMA) come out shifted.
+ */
+export function readVisibleTiles(state: PpuBgState, layer: BgLayerState): TileRow[] {
+  const screenHeight = state.overscan ? 239 : 224;
+
+  // Tilemap coordinates of a main-screen pixel, as the PPU's getColor hands
+  // them to fetchTileInBuffer: hi-res layers are sampled at 512 pixels a line
+  // (and 448 lines when interlaced), then halved for their 16-pixel-wide tiles
+  const mapX = (sx: number): number => {
+    let x = sx + layer.hScroll;
+    if (state.hires) {
+      x = x * 2 + 1;
+    }
+    return layer.bigTiles || state.hires ? x >> 1 : x;
+  };
+  const mapY = (line: number): number => {
+    let y = state.hires && state.interlace ? line * 2 + (state.oddField ? 1 : 0) : line;
+    y += layer.vScroll;
+    return layer.bigTiles ? y >> 1 : y;
+  };
+
+  // Same addressing as fetchTileInBuffer
+  const entryAt = (x: number, y: number): number => {
+    let adr = layer.tilemapAddress + ((((y & 0xFF) >> 3) << 5) | ((x & 0xFF) >> 3));
+    adr += (x & 0x100) && layer.tilemapWide ? 1024 : 0;
+    adr += (y & 0x100) && layer.tilemapTall ? (layer.tilemapWide ? 2048 : 1024) : 0;
+    return state.vram[adr & 0x7FFF];
+  };
+
+  // A new cell starts wherever the PPU would fetch a new tilemap entry
+  const columns: Array<{ x: number; mapX: number }> = [];
+  for (let sx = 0; sx < 256; sx++) {
+    const x = mapX(sx);
+    if (sx === 0 || x >> 3 !== columns[columns.length - 1].mapX >> 3) {
+      columns.push({ x: sx, mapX: x });
+    }
+  }
+
+  const rows: TileRow[] = [];
+  let lastRow = -1;
+  // Screen line 0 is PPU line 1
+  for (let sy = 0; sy < screenHeight; sy++) {
+    const y = mapY(sy + 1);
+    if (y >> 3 === lastRow) continue;
+    lastRow = y >> 3;
+    rows.push({ y: sy, cells: columns.map(column => ({ x: column.x, tile: entryAt(column.mapX, y) & 0x3FF })) });
+  }
+  return rows;
+}
+
+/**
+ * Tile-to-text table in the common ROM-hacking .tbl layout, one hex=text
+ * entry per line, keyed here by tile number (000-3FF) instead of byte value.
+ * Loaded from TEXT_TABLES_DIR (default ./tables) as <rom basename>.tbl.
+ */
+export class CharacterTable {
+  readonly file: string;
+  private entries: Map<number, string>;
+
+  private constructor(file: string, entries: Map<number, string>) {
+    this.file = file;
+    this.entries = entries;
+  }
+
+  /**
+   * Path the table for a ROM is expected at
+   */
+  static pathFor(romPath: string): string {
+    const dir = process.env.TEXT_TABLES_DIR || path.join(process.cwd(), 'tables');
+    return path.join(dir, romBaseName(romPath) + '.tbl');
+  }
+
+  /**
+   * Load the table for a ROM, or undefined if there is none
+   */
+  static load(romPath: string): CharacterTable | undefined {
+    const file = CharacterTable.pathFor(romPath);
+    if (!fs.existsSync(file)) {
+      return undefined;
+    }
+
+    const entries = new Map<number, string>();
+    for (const line of fs.readFileSync(file, 'utf-8').split(/\r?\n/)) {
+      // Anything that isn't hex=text (comments, end tokens) is skipped
+      const match = /^([0-9A-Fa-f]{1,4})=(.*)$/.exec(line);
+      if (match) {
+        entries.set(parseInt(match[1], 16), match[2]);
+      }
+    }
+    log.verbose(`Loaded ${entries.size} character table entries from ${file}`);
+    return new CharacterTable(file, entries);
+  }
+
+  lookup(tile: number): string | undefined {
+    return this.entries.get(tile);
+  }
+}
+
+/**
+ * Turn tile rows into text. Tiles missing from the table read as blanks,
+ * and two or more blank cells in a row split a line into separate pieces.
+ */
+export function extractText(rows: TileRow[], table: CharacterTable): TextLine[] {
+  const lines: TextLine[] = [];
+  for (const row of rows) {
+    let text = '';
+    let start = 0;
+    let blanks = 0;
+    const flush = () => {
+      if (text.trim() !== '') {
+        lines.push({ x: start, y: row.y, text: text.trim() });
+      }
+      text = '';
+      blanks = 0;
+    };
+
+    for (const cell of row.cells) {
+      const char = table.lookup(cell.tile) ?? ' ';
+      if (char.trim() === '') {
+        if (++blanks >= 2) {
+          flush();
+        } else if (text !== '') {
+          text += ' ';
+        }
+        continue;
+      }
+      if (text === '') {
+        start = cell.x;
+      }
+      blanks = 0;
+      text += char;
+    }
+    flush();
+  }
+  return lines;
+}
+
+/**
+ * Raw tile numbers per row as space-separated hex, for building tables.
+ * Rows made of a single repeated tile (usually empty background) are left out.
+ */
+export function formatTileRows(rows: TileRow[]): Array<{ y: number; tiles: string }> {
+  return rows
+    .filter(row => row.cells.some(cell => cell.tile !== row.cells[0].tile))
+    .map(row => ({
+      y: row.y,
+      tiles: row.cells.map(cell => cell.tile.toString(16).padStart(3, '0')).join(' ')
+    }));
+}
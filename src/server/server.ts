@@ -10,7 +10,8 @@ export function createSNESServer(emulatorService: EmulatorService): McpServer {
     },
     {
       capabilities: {
-        tools: {},
+        // Game profiles add and remove tools as ROMs are loaded
+        tools: { listChanged: true },
       },
     }
   );
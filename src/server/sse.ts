@@ -10,6 +10,7 @@ import multer from 'multer';
 import { setupWebUI, setupRomSelectionUI } from '../ui';
 import { WsSync } from '../wsSync';
 import { log } from '../utils/logger';
+import { romFileExists } from '../romFile';
 
 export async function startSseServer(port?: number): Promise<void> {
   const ssePort = port || (process.env.SERVER_PORT ? parseInt(process.env.SERVER_PORT, 10) : 3001);
@@ -105,7 +106,7 @@ export async function startSseServer(port?: number): Promise<void> {
   app.get('/snes', (req, res) => {
     const romPath = req.query.rom as string;
 
-    if (!romPath || !fs.existsSync(romPath)) {
+    if (!romPath || !romFileExists(romPath)) {
       res.redirect('/');
       return;
     }
@@ -11,6 +11,7 @@ import multer from 'multer';
 import { setupWebUI, setupRomSelectionUI } from '../ui';
 import { WsSync } from '../wsSync';
 import { log } from '../utils/logger';
+import { romFileExists } from '../romFile';
 
 export async function startStdioServer(): Promise<void> {
   const emulator = new SNESEmulator();
@@ -20,7 +21,7 @@ export async function startStdioServer(): Promise<void> {
   // Optionally auto-load ROM from environment variable
   const romPath = process.env.ROM_PATH;
   if (romPath) {
-    if (!fs.existsSync(romPath)) {
+    if (!romFileExists(romPath)) {
       log.error(`ROM file not found: ${romPath}`);
       process.exit(1);
     }
@@ -78,7 +79,7 @@ export async function startStdioServer(): Promise<void> {
     const absoluteRomPath = path.resolve(process.cwd(), relativeRomPath);
     log.info(`[stdio /snes] Resolved path: ${absoluteRomPath}`);
 
-    if (!fs.existsSync(absoluteRomPath)) {
+    if (!romFileExists(absoluteRomPath)) {
       log.error(`[stdio /snes] ROM file not found: ${absoluteRomPath}`);
       res.status(404).send(`ROM not found: ${relativeRomPath}`);
       return;
@@ -50,11 +50,12 @@ function Apu(snes) {
   }
   this.reset();
 
-  this.getState = function() {
+  this.getState = function(copy) {
+    copy = copy || Array.from;
     return {
-      ram: Array.from(this.ram),
-      spcWritePorts: Array.from(this.spcWritePorts),
-      spcReadPorts: Array.from(this.spcReadPorts),
+      ram: copy(this.ram),
+      spcWritePorts: copy(this.spcWritePorts),
+      spcReadPorts: copy(this.spcReadPorts),
       dspAdr: this.dspAdr, dspRomReadable: this.dspRomReadable,
       cycles: this.cycles,
       timer1int: this.timer1int, timer1div: this.timer1div,
@@ -66,8 +67,8 @@ function Apu(snes) {
       timer3int: this.timer3int, timer3div: this.timer3div,
       timer3target: this.timer3target, timer3counter: this.timer3counter,
       timer3enabled: this.timer3enabled,
-      spc: this.spc.getState(),
-      dsp: this.dsp.getState()
+      spc: this.spc.getState(copy),
+      dsp: this.dsp.getState(copy)
     };
   }
 
@@ -1,17 +1,21 @@
 
-function Cart(data, header, isHirom) {
+function Cart(data, header, isHirom, isExHirom) {
   this.header = header;
   this.data = data;
 
   this.isHirom = isHirom;
+  this.isExHirom = !!isExHirom;
 
   this.sram = new Uint8Array(header.ramSize);
   this.hasSram = header.chips > 0;
 
   this.banks = header.romSize / 0x8000;
   this.sramSize = header.ramSize;
+
+  // rom offset -> value, for game genie style patches
+  this.romPatches = new Map();
   log(
-    "Loaded " + (this.isHirom ? "HiROM" : "LoROM") + " rom: \"" + header.name + "\"; " +
+    "Loaded " + (this.isExHirom ? "ExHiROM" : this.isHirom ? "HiROM" : "LoROM") + " rom: \"" + header.name + "\"; " +
     "Banks: " + this.banks +
     "; Sram size: $" + getWordRep(this.hasSram ? this.sramSize : 0)
   );
@@ -23,8 +27,9 @@ function Cart(data, header, isHirom) {
   }
   this.reset();
 
-  this.getState = function() {
-    return { sram: Array.from(this.sram) };
+  this.getState = function(copy) {
+    copy = copy || Array.from;
+    return { sram: copy(this.sram) };
   }
 
   this.setState = function(s) {
@@ -33,6 +38,30 @@ function Cart(data, header, isHirom) {
     }
   }
 
+  this.romOffset = function(bank, adr) {
+    if(this.isExHirom) {
+      // banks c0-ff (and 80-bf) hold the first 4 MB, 40-7d (and 00-3f) the rest
+      let offset = ((bank & 0x80) ? 0 : 0x400000) | ((bank & 0x3f) << 16) | adr;
+      if(offset >= this.data.length) {
+        // mirror within the upper part
+        offset = 0x400000 + ((offset - 0x400000) % (this.data.length - 0x400000));
+      }
+      return offset;
+    }
+    if(!this.isHirom) {
+      return ((bank & (this.banks - 1)) << 15) | (adr & 0x7fff);
+    }
+    return (((bank & 0x3f) & (this.banks - 1)) << 16) | adr;
+  }
+
+  this.patchRom = function(bank, adr, value) {
+    this.romPatches.set(this.romOffset(bank, adr), value & 0xff);
+  }
+
+  this.clearRomPatches = function() {
+    this.romPatches.clear();
+  }
+
   this.read = function(bank, adr) {
     if(!this.isHirom) {
       if(adr < 0x8000) {
@@ -43,7 +72,6 @@ function Cart(data, header, isHirom) {
           ];
         }
       }
-      return this.data[((bank & (this.banks - 1)) << 15) | (adr & 0x7fff)];
     } else {
       if(adr >= 0x6000 && adr < 0x8000 && this.hasSram) {
         if((bank < 0x40 || (bank >= 0x80 && bank < 0xc0))) {
@@ -53,8 +81,12 @@ function Cart(data, header, isHirom) {
           ]
         }
       }
-      return this.data[(((bank & 0x3f) & (this.banks - 1)) << 16) | adr];
     }
+    let offset = this.romOffset(bank, adr);
+    if(this.romPatches.size > 0 && this.romPatches.has(offset)) {
+      return this.romPatches.get(offset);
+    }
+    return this.data[offset];
   }
 
   this.write = function(bank, adr, value) {
@@ -140,10 +140,11 @@ Cpu = (function() {
     }
     this.reset();
 
-    this.getState = function() {
+    this.getState = function(copy) {
+      copy = copy || Array.from;
       return {
-        r: Array.from(this.r),
-        br: Array.from(this.br),
+        r: copy(this.r),
+        br: copy(this.br),
         n: this.n, v: this.v, m: this.m, x: this.x,
         d: this.d, i: this.i, z: this.z, c: this.c, e: this.e,
         irqWanted: this.irqWanted, nmiWanted: this.nmiWanted,
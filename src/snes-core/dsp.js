@@ -108,11 +108,12 @@ function Dsp(apu) {
   }
   this.reset();
 
-  this.getState = function() {
+  this.getState = function(copy) {
+    copy = copy || Array.from;
     return {
-      ram: Array.from(this.ram),
-      decodeBuffer: Array.from(this.decodeBuffer),
-      rateNums: Array.from(this.rateNums),
+      ram: copy(this.ram),
+      decodeBuffer: copy(this.decodeBuffer),
+      rateNums: copy(this.rateNums),
       pitch: this.pitch.slice(), counter: this.counter.slice(),
       pitchMod: this.pitchMod.slice(),
       srcn: this.srcn.slice(), decodeOffset: this.decodeOffset.slice(),
@@ -212,12 +212,13 @@ function Ppu(snes) {
   }
   this.reset();
 
-  this.getState = function() {
+  this.getState = function(copy) {
+    copy = copy || Array.from;
     return {
-      vram: Array.from(this.vram),
-      cgram: Array.from(this.cgram),
-      oam: Array.from(this.oam),
-      highOam: Array.from(this.highOam),
+      vram: copy(this.vram),
+      cgram: copy(this.cgram),
+      oam: copy(this.oam),
+      highOam: copy(this.highOam),
       cgramAdr: this.cgramAdr, cgramSecond: this.cgramSecond,
       cgramBuffer: this.cgramBuffer,
       vramInc: this.vramInc, vramRemap: this.vramRemap,
@@ -123,10 +123,12 @@ function Snes() {
   }
   this.reset();
 
-  this.saveState = function() {
+  this.saveState = function(copy) {
+    // copy: how typed arrays are copied (default plain arrays, for JSON)
+    copy = copy || Array.from;
     return {
       version: 1,
-      ram: Array.from(this.ram),
+      ram: copy(this.ram),
       xPos: this.xPos, yPos: this.yPos, frames: this.frames,
       cpuCyclesLeft: this.cpuCyclesLeft, cpuMemOps: this.cpuMemOps,
       apuCatchCycles: this.apuCatchCycles, ramAdr: this.ramAdr,
@@ -152,16 +154,16 @@ function Snes() {
       hdmaDoTransfer: this.hdmaDoTransfer.slice(),
       hdmaTerminated: this.hdmaTerminated.slice(),
       dmaOffIndex: this.dmaOffIndex,
-      dmaBadr: Array.from(this.dmaBadr), dmaAadr: Array.from(this.dmaAadr),
-      dmaAadrBank: Array.from(this.dmaAadrBank), dmaSize: Array.from(this.dmaSize),
-      hdmaIndBank: Array.from(this.hdmaIndBank),
-      hdmaTableAdr: Array.from(this.hdmaTableAdr),
-      hdmaRepCount: Array.from(this.hdmaRepCount),
-      dmaUnusedByte: Array.from(this.dmaUnusedByte),
-      cpu: this.cpu.getState(),
-      ppu: this.ppu.getState(),
-      apu: this.apu.getState(),
-      cart: this.cart.getState()
+      dmaBadr: copy(this.dmaBadr), dmaAadr: copy(this.dmaAadr),
+      dmaAadrBank: copy(this.dmaAadrBank), dmaSize: copy(this.dmaSize),
+      hdmaIndBank: copy(this.hdmaIndBank),
+      hdmaTableAdr: copy(this.hdmaTableAdr),
+      hdmaRepCount: copy(this.hdmaRepCount),
+      dmaUnusedByte: copy(this.dmaUnusedByte),
+      cpu: this.cpu.getState(copy),
+      ppu: this.ppu.getState(copy),
+      apu: this.apu.getState(copy),
+      cart: this.cart.getState(copy)
     };
   }
 
@@ -959,16 +961,24 @@ function Snes() {
     this.joypad1State &= (~(1 << num)) & 0xfff;
   }
 
+  this.setPad2ButtonPressed = function(num) {
+    this.joypad2State |= (1 << num);
+  }
+
+  this.setPad2ButtonReleased = function(num) {
+    this.joypad2State &= (~(1 << num)) & 0xfff;
+  }
+
   // rom loading and header parsing
 
-  this.loadRom = function(rom, isHirom) {
+  this.loadRom = function(rom, isHirom, isExHirom) {
     if(rom.length % 0x8000 === 0) {
       // no copier header
-      var header = this.parseHeader(rom, isHirom);
+      var header = this.parseHeader(rom, isHirom, isExHirom);
     } else if((rom.length - 512) % 0x8000 === 0) {
       // 512-byte copier header
       rom = new Uint8Array(Array.prototype.slice.call(rom, 512));
-      header = this.parseHeader(rom, isHirom);
+      header = this.parseHeader(rom, isHirom, isExHirom);
     } else {
       log("Failed to load rom: Incorrect size - " + rom.length);
       return false;
@@ -993,14 +1003,27 @@ function Snes() {
       }
       rom = nRom;
     }
-    this.cart = new Cart(rom, header, isHirom);
+    this.cart = new Cart(rom, header, isHirom || isExHirom, isExHirom);
     return true;
   }
 
-  this.parseHeader = function(rom, isHirom) {
+  this.parseHeader = function(rom, isHirom, isExHirom) {
     let str = "";
     let header;
-    if(!isHirom) {
+    if(isExHirom) {
+      // ExHiROM: the header is in the upper 4 MB, which banks 00-3f map
+      for(let i = 0; i < 21; i++) {
+        str += String.fromCharCode(rom[0x40ffc0 + i]);
+      }
+      header = {
+        name: str,
+        type: rom[0x40ffd5] & 0xf,
+        speed: rom[0x40ffd5] >> 4,
+        chips: rom[0x40ffd6],
+        romSize: 0x400 << rom[0x40ffd7],
+        ramSize: 0x400 << rom[0x40ffd8]
+      };
+    } else if(!isHirom) {
       for(let i = 0; i < 21; i++) {
         str += String.fromCharCode(rom[0x7fc0 + i]);
       }
@@ -104,10 +104,11 @@ Spc = (function() {
     }
     this.reset();
 
-    this.getState = function() {
+    this.getState = function(copy) {
+      copy = copy || Array.from;
       return {
-        r: Array.from(this.r),
-        br: Array.from(this.br),
+        r: copy(this.r),
+        br: copy(this.br),
         n: this.n, v: this.v, p: this.p, b: this.b,
         h: this.h, i: this.i, z: this.z, c: this.c,
         cyclesLeft: this.cyclesLeft
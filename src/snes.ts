@@ -1,23 +1,39 @@
-import { SNESButton, SNES_BUTTON_MAP } from './types';
+import { SNESButton, SNES_BUTTON_MAP, SNESPlayer, CpuState, ScreenshotOptions, PpuBgState, BgLayerState, RomInfo } from './types';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as vm from 'vm';
 import { createCanvas, Canvas } from 'canvas';
 import { log } from './utils/logger';
+import type { Cheat } from './cheats';
+import { readRomInfo } from './romInfo';
+import { readRomFile } from './romFile';
+import { applyPatch } from './romPatch';
+import { encodeWebp } from './webp';
 
 /**
- * Detect whether a ROM is LoROM or HiROM.
- * Checks header checksums at 0x7FC0 (LoROM) and 0xFFC0 (HiROM).
+ * Detect whether a ROM is LoROM, HiROM or ExHiROM.
+ * Checks header checksums at 0x7FC0 (LoROM), 0xFFC0 (HiROM) and, for ROMs
+ * over 4 MB, 0x40FFC0 (ExHiROM, map mode $25/$35).
  * Also strips 512-byte SMC copier header if present.
  */
-export function detectHiRom(romData: Uint8Array): { data: Uint8Array; isHirom: boolean } {
+export function detectHiRom(romData: Uint8Array): { data: Uint8Array; isHirom: boolean; isExHirom: boolean; copierHeader: boolean } {
   let data = romData;
 
   // Strip 512-byte copier header if present
-  if (data.length % 1024 === 512) {
+  const copierHeader = data.length % 1024 === 512;
+  if (copierHeader) {
     data = data.slice(512);
   }
 
+  // Check ExHiROM header at 0x40FFDC-0x40FFDF
+  if (data.length > 0x400000 && data.length >= 0x40FFE0) {
+    const complementEx = data[0x40FFDC] | (data[0x40FFDD] << 8);
+    const checksumEx = data[0x40FFDE] | (data[0x40FFDF] << 8);
+    if (((complementEx + checksumEx) & 0xFFFF) === 0xFFFF && (data[0x40FFD5] & 0x0F) === 5) {
+      return { data, isHirom: true, isExHirom: true, copierHeader };
+    }
+  }
+
   // Check LoROM header at 0x7FDC-0x7FDF
   let loromValid = false;
   if (data.length >= 0x7FE0) {
@@ -45,7 +61,7 @@ export function detectHiRom(romData: Uint8Array): { data: Uint8Array; isHirom: b
     isHirom = hiType === 3; // speed bit pattern for HiROM
   }
 
-  return { data, isHirom };
+  return { data, isHirom, isExHirom: false, copierHeader };
 }
 
 // Provide global helpers that SnesJs core expects
@@ -99,7 +115,18 @@ export class SNESEmulator {
   private canvas: Canvas;
   private romLoaded: boolean = false;
   private romPath?: string;
+  private romInfo?: RomInfo;
+  private patchPath?: string;
+  private romImage?: Buffer;    // file contents as loaded: unpacked and patched
   private pixelBuffer: Uint8ClampedArray;
+  // WRAM address -> byte value re-applied before every frame
+  private frozenRam: Map<number, number> = new Map();
+  // WRAM address -> byte value written by Pro Action Replay cheats every frame
+  private cheatRam: Map<number, number> = new Map();
+  // Copy of the PPU framebuffer from the last sampleFrameChange() call
+  private lastFrameSample?: Uint16Array;
+  // Called before every frame (movies, rewind)
+  private frameHook?: () => void;
 
   constructor() {
     // Create a canvas for rendering (SNES resolution: 512x480)
@@ -115,16 +142,25 @@ export class SNESEmulator {
 
   /**
    * Load a ROM file
-   * @param romPath Path to the .smc/.sfc ROM file
+   * @param romPath Path to the .smc/.sfc ROM file, or a .zip/.gz holding one
+   * @param patchPath IPS, BPS or UPS patch to apply in memory first
    */
-  public loadRom(romPath: string): void {
+  public loadRom(romPath: string, patchPath?: string): void {
     try {
-      const rawData = new Uint8Array(fs.readFileSync(romPath));
-      const { data, isHirom } = detectHiRom(rawData);
+      let image = readRomFile(romPath);
+      if (patchPath) {
+        const patched = applyPatch(image, fs.readFileSync(patchPath));
+        log.info(`Applied ${patched.format.toUpperCase()} patch ${path.basename(patchPath)}`);
+        image = patched.data;
+      }
+
+      const rawData = new Uint8Array(image);
+      const { data, isHirom, isExHirom, copierHeader } = detectHiRom(rawData);
+      const mapping = isExHirom ? 'ExHiROM' : isHirom ? 'HiROM' : 'LoROM';
 
-      log.info(`ROM mapping detected: ${isHirom ? 'HiROM' : 'LoROM'}`);
+      log.info(`ROM mapping detected: ${mapping}`);
 
-      const result = this.snes.loadRom(data, isHirom);
+      const result = this.snes.loadRom(data, isHirom, isExHirom);
       if (result === false) {
         throw new Error('SnesJs loadRom returned false');
       }
@@ -132,8 +168,16 @@ export class SNESEmulator {
       // Reset after loading so the CPU reads the reset vector from the cart
       this.snes.reset(true);
 
+      this.frozenRam.clear();
+      this.cheatRam.clear();
       this.romLoaded = true;
       this.romPath = romPath;
+      this.patchPath = patchPath;
+      this.romImage = image;
+      this.romInfo = readRomInfo(data, mapping, copierHeader);
+      if (this.romInfo.coprocessor) {
+        log.warn(`ROM uses a ${this.romInfo.coprocessor} coprocessor, which is not emulated`);
+      }
       log.info(`ROM loaded: ${path.basename(romPath)}`);
     } catch (error) {
       log.error(`Error loading ROM: ${error}`);
@@ -152,31 +196,83 @@ export class SNESEmulator {
   /**
    * Press a button (set it as pressed)
    * @param buttonNum Button number to press
+   * @param player Controller port (1 or 2)
    */
-  public setButtonPressed(buttonNum: number): void {
+  public setButtonPressed(buttonNum: number, player: SNESPlayer = 1): void {
     if (!this.romLoaded) {
       throw new Error('No ROM loaded');
     }
-    this.snes.setPad1ButtonPressed(buttonNum);
+    if (player === 2) {
+      this.snes.setPad2ButtonPressed(buttonNum);
+    } else {
+      this.snes.setPad1ButtonPressed(buttonNum);
+    }
   }
 
   /**
    * Release a button (set it as released)
    * @param buttonNum Button number to release
+   * @param player Controller port (1 or 2)
+   */
+  public setButtonReleased(buttonNum: number, player: SNESPlayer = 1): void {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    if (player === 2) {
+      this.snes.setPad2ButtonReleased(buttonNum);
+    } else {
+      this.snes.setPad1ButtonReleased(buttonNum);
+    }
+  }
+
+  /**
+   * Current pad states as SnesJs button bitmasks
+   * @returns [player 1, player 2]
+   */
+  public getPadStates(): [number, number] {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    return [this.snes.joypad1State, this.snes.joypad2State];
+  }
+
+  /**
+   * Replace both pad states at once
+   * @param pad1 Player 1 button bitmask
+   * @param pad2 Player 2 button bitmask
+   */
+  public setPadStates(pad1: number, pad2: number): void {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    this.snes.joypad1State = pad1;
+    this.snes.joypad2State = pad2;
+  }
+
+  /**
+   * Install (or clear) a callback run before every emulated frame
    */
-  public setButtonReleased(buttonNum: number): void {
+  public setFrameHook(hook?: () => void): void {
+    this.frameHook = hook;
+  }
+
+  /**
+   * Hard reset as on power-on: clears WRAM, SRAM and pad states
+   */
+  public powerOn(): void {
     if (!this.romLoaded) {
       throw new Error('No ROM loaded');
     }
-    this.snes.setPad1ButtonReleased(buttonNum);
+    this.snes.reset(true);
   }
 
   /**
    * Press a button on the SNES controller (blocking version)
    * @param button Button to press
    * @param durationFrames Number of frames to hold the button
+   * @param player Controller port (1 or 2)
    */
-  public pressButton(button: SNESButton, durationFrames: number = 1): void {
+  public pressButton(button: SNESButton, durationFrames: number = 1, player: SNESPlayer = 1): void {
     if (!this.romLoaded) {
       throw new Error('No ROM loaded');
     }
@@ -184,18 +280,18 @@ export class SNESEmulator {
     const buttonNum = SNES_BUTTON_MAP[button];
 
     // Press the button
-    this.snes.setPad1ButtonPressed(buttonNum);
+    this.setButtonPressed(buttonNum, player);
 
     // Hold for durationFrames
     for (let i = 0; i < durationFrames; i++) {
-      this.snes.runFrame(true); // noPpu=true for server-side speed
+      this.runFrame(true); // noPpu=true for server-side speed
     }
 
     // Release the button
-    this.snes.setPad1ButtonReleased(buttonNum);
+    this.setButtonReleased(buttonNum, player);
 
     // Advance one extra frame after release (with PPU for screenshot)
-    this.snes.runFrame();
+    this.runFrame();
   }
 
   /**
@@ -205,7 +301,7 @@ export class SNESEmulator {
     if (!this.romLoaded) {
       throw new Error('No ROM loaded');
     }
-    this.snes.runFrame();
+    this.runFrame();
   }
 
   /**
@@ -215,18 +311,28 @@ export class SNESEmulator {
     if (!this.romLoaded) {
       throw new Error('No ROM loaded');
     }
-    this.snes.runFrame(true); // noPpu=true for speed
+    this.runFrame(true); // noPpu=true for speed
   }
 
   /**
-   * Get the current screen as a base64 encoded PNG
-   * @returns Base64 encoded PNG image
+   * Run one frame of the core, applying frozen RAM values first
+   * @param noPpu Skip PPU rendering
    */
-  public getScreenAsBase64(): string {
-    if (!this.romLoaded) {
-      throw new Error('No ROM loaded');
+  private runFrame(noPpu: boolean = false): void {
+    this.frameHook?.();
+    for (const [address, value] of this.frozenRam) {
+      this.snes.ram[address] = value;
+    }
+    for (const [address, value] of this.cheatRam) {
+      this.snes.ram[address] = value;
     }
+    this.snes.runFrame(noPpu);
+  }
 
+  /**
+   * Copy the PPU framebuffer into the internal canvas
+   */
+  private renderToCanvas(): void {
     const ctx = this.canvas.getContext('2d');
     const imageData = ctx.createImageData(512, 480);
 
@@ -234,11 +340,235 @@ export class SNESEmulator {
     this.snes.setPixels(imageData.data);
 
     ctx.putImageData(imageData, 0, 0);
+  }
+
+  /**
+   * Get the current screen as a base64 encoded PNG
+   * @returns Base64 encoded PNG image
+   */
+  public getScreenAsBase64(): string {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    this.renderToCanvas();
 
     // Convert to base64 PNG
     return this.canvas.toDataURL('image/png').split(',')[1];
   }
 
+  /**
+   * Encode the current screen with format, resolution, crop and color options
+   * @param options Screenshot options; the default is a 512x480 PNG
+   * @returns Encoded image and its size
+   */
+  public getScreenImage(options: ScreenshotOptions = {}): { data: Buffer; mimeType: string; width: number; height: number } {
+    const out = this.renderScreen(options);
+    const { width, height } = out;
+
+    if (options.format === 'jpeg') {
+      const quality = options.quality ?? 80;
+      return { data: out.toBuffer('image/jpeg', { quality: quality / 100 }), mimeType: 'image/jpeg', width, height };
+    }
+    if (options.format === 'webp') {
+      // node-canvas has no WebP encoder
+      const pixels = out.getContext('2d').getImageData(0, 0, width, height).data;
+      return { data: encodeWebp(pixels, width, height), mimeType: 'image/webp', width, height };
+    }
+    return { data: out.toBuffer('image/png'), mimeType: 'image/png', width, height };
+  }
+
+  /**
+   * Get the current screen as raw RGBA after resolution, crop and color options
+   * @param options Screenshot options (format and quality are ignored)
+   */
+  public getScreenPixels(options: ScreenshotOptions = {}): { data: Uint8ClampedArray; width: number; height: number } {
+    const out = this.renderScreen(options);
+    const { width, height } = out;
+    return { data: out.getContext('2d').getImageData(0, 0, width, height).data, width, height };
+  }
+
+  /**
+   * Render the current screen into a new canvas, applying the resolution,
+   * trim, crop, scale and grayscale options
+   */
+  private renderScreen(options: ScreenshotOptions): Canvas {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    this.renderToCanvas();
+
+    // Source rectangle in the 512x480 canvas and the size it maps to
+    let srcX = 0, srcY = 0, srcW = 512, srcH = 480;
+    let baseW = 512, baseH = 480;
+    if (options.native) {
+      // Lines are doubled vertically and low-res pixels horizontally;
+      // without overscan only lines 1-224 (canvas rows 16-463) are drawn
+      const ppu = this.snes.ppu;
+      const hires = ppu.mode === 5 || ppu.mode === 6 || ppu.pseudoHires;
+      srcY = ppu.frameOverscan ? 2 : 16;
+      srcH = ppu.frameOverscan ? 478 : 448;
+      baseW = hires ? 512 : 256;
+      baseH = ppu.frameInterlace ? srcH : srcH / 2;
+    }
+
+    if (options.trim) {
+      const area = this.findActiveArea(srcX, srcY, srcW, srcH);
+      if (area) {
+        // Round outward to whole output pixels
+        const sx = srcW / baseW;
+        const sy = srcH / baseH;
+        const left = Math.floor(area.x / sx);
+        const top = Math.floor(area.y / sy);
+        const right = Math.ceil((area.x + area.width) / sx);
+        const bottom = Math.ceil((area.y + area.height) / sy);
+        srcX += left * sx;
+        srcY += top * sy;
+        srcW = (right - left) * sx;
+        srcH = (bottom - top) * sy;
+        baseW = right - left;
+        baseH = bottom - top;
+      }
+    }
+
+    if (options.crop) {
+      const { x, y, width, height } = options.crop;
+      if (x < 0 || y < 0 || width < 1 || height < 1 || x + width > baseW || y + height > baseH) {
+        throw new Error(`Crop rectangle ${x},${y} ${width}x${height} is outside the ${baseW}x${baseH} screen`);
+      }
+      const sx = srcW / baseW;
+      const sy = srcH / baseH;
+      srcX += x * sx;
+      srcY += y * sy;
+      srcW = width * sx;
+      srcH = height * sy;
+      baseW = width;
+      baseH = height;
+    }
+
+    const scale = options.scale ?? 1;
+    if (!Number.isInteger(scale) || scale < 1) {
+      throw new Error(`Scale must be a positive integer, got ${scale}`);
+    }
+    const width = baseW * scale;
+    const height = baseH * scale;
+
+    const out = createCanvas(width, height);
+    const ctx = out.getContext('2d');
+    ctx.imageSmoothingEnabled = false; // nearest neighbour keeps pixel art sharp
+    ctx.drawImage(this.canvas, srcX, srcY, srcW, srcH, 0, 0, width, height);
+
+    if (options.grayscale) {
+      const imageData = ctx.getImageData(0, 0, width, height);
+      const px = imageData.data;
+      for (let i = 0; i < px.length; i += 4) {
+        const luma = Math.round(px[i] * 0.299 + px[i + 1] * 0.587 + px[i + 2] * 0.114);
+        px[i] = px[i + 1] = px[i + 2] = luma;
+      }
+      ctx.putImageData(imageData, 0, 0);
+    }
+    return out;
+  }
+
+  /**
+   * Find the part of a canvas region that differs from its top-left pixel,
+   * i.e. what's left after cutting solid-color borders
+   * @returns Bounding box relative to the region, or undefined if it's all one color
+   */
+  private findActiveArea(x: number, y: number, width: number, height: number):
+    { x: number; y: number; width: number; height: number } | undefined {
+    const px = this.canvas.getContext('2d').getImageData(x, y, width, height).data;
+    const border = [px[0], px[1], px[2]];
+    let left = width, top = height, right = -1, bottom = -1;
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        const i = (row * width + col) * 4;
+        if (px[i] !== border[0] || px[i + 1] !== border[1] || px[i + 2] !== border[2]) {
+          if (col < left) left = col;
+          if (col > right) right = col;
+          if (row < top) top = row;
+          bottom = row;
+        }
+      }
+    }
+    if (right < 0) {
+      return undefined;
+    }
+    return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+  }
+
+  /**
+   * Get a downscaled PNG of the current screen, used for save-state thumbnails
+   * @param width Thumbnail width in pixels
+   * @param height Thumbnail height in pixels
+   * @returns PNG file contents
+   */
+  public getThumbnailPng(width: number = 128, height: number = 120): Buffer {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    this.renderToCanvas();
+
+    const thumb = createCanvas(width, height);
+    thumb.getContext('2d').drawImage(this.canvas, 0, 0, width, height);
+    return thumb.toBuffer('image/png');
+  }
+
+  /**
+   * Compare the PPU framebuffer with the one seen at the previous call.
+   * Only meaningful when the frames in between were run with the PPU (doFrame).
+   * @param keepBaseline Compare later calls against the same earlier frame
+   *                     instead of this one (catches gradual changes)
+   * @returns Fraction of pixels (0 to 1) that changed; 1 on the first call
+   */
+  public sampleFrameChange(keepBaseline: boolean = false): number {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    // pixelOutput holds 3 values (r, g, b) per pixel
+    const pixels: Uint16Array = this.snes.ppu.pixelOutput;
+    const previous = this.lastFrameSample;
+    if (!previous || !keepBaseline) {
+      this.lastFrameSample = new Uint16Array(pixels);
+    }
+    if (!previous) {
+      return 1;
+    }
+
+    let changed = 0;
+    for (let i = 0; i < pixels.length; i += 3) {
+      if (pixels[i] !== previous[i] || pixels[i + 1] !== previous[i + 1] || pixels[i + 2] !== previous[i + 2]) {
+        changed++;
+      }
+    }
+    return changed / (pixels.length / 3);
+  }
+
+  /**
+   * Forget the last framebuffer sample so the next comparison starts fresh
+   */
+  public resetFrameSample(): void {
+    this.lastFrameSample = undefined;
+  }
+
+  /**
+   * Drain the audio generated since the last call (or, on the first call, stale samples)
+   * @param sampleCount Samples per channel to resample the buffer to
+   * @returns Left and right samples in the range -1 to 1
+   */
+  public takeAudioSamples(sampleCount: number): { left: Float64Array; right: Float64Array } {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    const left = new Float64Array(sampleCount);
+    const right = new Float64Array(sampleCount);
+    this.snes.setSamples(left, right, sampleCount);
+    return { left, right };
+  }
+
   /**
    * Get the current ROM path
    */
@@ -246,6 +576,45 @@ export class SNESEmulator {
     return this.romPath;
   }
 
+  /**
+   * Get the SHA-1 of the loaded ROM data (copier header stripped)
+   */
+  public getRomHash(): string | undefined {
+    return this.romInfo?.sha1;
+  }
+
+  /**
+   * Get the patch applied to the loaded ROM, if any
+   */
+  public getPatchPath(): string | undefined {
+    return this.patchPath;
+  }
+
+  /**
+   * Get the loaded ROM image as the core received it (unpacked and
+   * patched, copier header intact), for the browser to load the same game
+   */
+  public getRomImage(): Buffer | undefined {
+    return this.romImage;
+  }
+
+  /**
+   * Get the decoded header and checksums of the loaded ROM
+   */
+  public getRomInfo(): RomInfo | undefined {
+    return this.romInfo;
+  }
+
+  /**
+   * Get the number of frames emulated since the last hard reset
+   */
+  public getFrameCount(): number {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    return this.snes.frames;
+  }
+
   /**
    * Check if a ROM is loaded
    */
@@ -253,6 +622,69 @@ export class SNESEmulator {
     return this.romLoaded;
   }
 
+  /**
+   * Get the 65816 registers and the current beam position
+   * @returns Decoded CPU state
+   */
+  public getCpuState(): CpuState {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    // SnesJs keeps r = [DBR, K] and br = [A, X, Y, SP, PC, DPR]
+    const cpu = this.snes.cpu.getState();
+    return {
+      a: cpu.br[0],
+      x: cpu.br[1],
+      y: cpu.br[2],
+      sp: cpu.br[3],
+      dp: cpu.br[5],
+      dbr: cpu.r[0],
+      pbr: cpu.r[1],
+      pc: cpu.br[4],
+      flags: {
+        n: cpu.n, v: cpu.v, m: cpu.m, x: cpu.x,
+        d: cpu.d, i: cpu.i, z: cpu.z, c: cpu.c
+      },
+      emulationMode: cpu.e,
+      nmiPending: cpu.nmiWanted,
+      irqPending: cpu.irqWanted,
+      stopped: cpu.stopped,
+      waiting: cpu.waiting,
+      scanline: this.snes.yPos,
+      dot: this.snes.xPos
+    };
+  }
+
+  /**
+   * Read a byte from the CPU bus without side effects: WRAM, ROM and SRAM
+   * are peeked directly, while the I/O pages ($2100-$21FF, $4000-$43FF in
+   * the system banks), whose reads latch or clear PPU/CPU state, read as open bus.
+   * @param address 24-bit bus address
+   * @returns Byte value at that address
+   */
+  public readBus(address: number): number {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    const bank = (address >> 16) & 0xFF;
+    const offset = address & 0xFFFF;
+    if (bank === 0x7E || bank === 0x7F) {
+      return this.snes.ram[((bank & 1) << 16) | offset];
+    }
+    if (offset < 0x8000 && (bank < 0x40 || (bank >= 0x80 && bank < 0xC0))) {
+      if (offset < 0x2000) {
+        return this.snes.ram[offset & 0x1FFF];
+      }
+      if ((offset >= 0x2100 && offset < 0x2200) || (offset >= 0x4000 && offset < 0x4400)) {
+        return this.snes.openBus;
+      }
+    }
+    return this.snes.cart.read(bank, offset);
+  }
+
+
   /**
    * Dump a range of WRAM (Work RAM)
    * @param startAddress Start address (0x0000 to 0x1FFFF)
@@ -308,6 +740,237 @@ export class SNESEmulator {
     return low | (high << 8);
   }
 
+  /**
+   * Read a byte range out of a little-endian word array
+   */
+  private dumpWords(words: ArrayLike<number>, startAddress: number, length: number): Uint8Array {
+    const size = words.length * 2;
+    const start = Math.max(0, Math.min(startAddress, size));
+    const end = Math.min(start + length, size);
+    const bytes = new Uint8Array(end - start);
+    for (let i = start; i < end; i++) {
+      const word = words[i >> 1];
+      bytes[i - start] = (i & 1) ? (word >> 8) & 0xFF : word & 0xFF;
+    }
+    return bytes;
+  }
+
+  /**
+   * Dump a range of PPU VRAM (64KB, byte addressed)
+   * @param startAddress Start byte address (0x0000 to 0xFFFF)
+   * @param length Number of bytes to dump
+   * @returns Uint8Array containing the VRAM data
+   */
+  public dumpVram(startAddress: number = 0, length: number = 0x10000): Uint8Array {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    return this.dumpWords(this.snes.ppu.vram, startAddress, length);
+  }
+
+  /**
+   * Dump a range of PPU CGRAM (palette, 512 bytes of BGR555 colors)
+   * @param startAddress Start byte address (0x000 to 0x1FF)
+   * @param length Number of bytes to dump
+   * @returns Uint8Array containing the CGRAM data
+   */
+  public dumpCgram(startAddress: number = 0, length: number = 0x200): Uint8Array {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    return this.dumpWords(this.snes.ppu.cgram, startAddress, length);
+  }
+
+  /**
+   * Dump a range of PPU OAM (544 bytes: 512-byte low table, then 32-byte high table)
+   * @param startAddress Start byte address (0x000 to 0x21F)
+   * @param length Number of bytes to dump
+   * @returns Uint8Array containing the OAM data
+   */
+  public dumpOam(startAddress: number = 0, length: number = 0x220): Uint8Array {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    const words = [...this.snes.ppu.oam, ...this.snes.ppu.highOam];
+    return this.dumpWords(words, startAddress, length);
+  }
+
+  /**
+   * Get the background layer registers and a copy of VRAM
+   */
+  public getBgState(): PpuBgState {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    const ppu = this.snes.ppu;
+    const layers: BgLayerState[] = [];
+    if (ppu.mode !== 7) {
+      for (let layer = 0; layer < 4; layer++) {
+        const bitsPerPixel = ppu.bitPerMode[ppu.mode * 4 + layer];
+        if (bitsPerPixel === 5) continue; // layer doesn't exist in this mode
+        layers.push({
+          layer,
+          bitsPerPixel,
+          mainScreen: ppu.mainScreenEnabled[layer],
+          subScreen: ppu.subScreenEnabled[layer],
+          tilemapAddress: ppu.tilemapAdr[layer],
+          tilemapWide: ppu.tilemapWider[layer],
+          tilemapTall: ppu.tilemapHigher[layer],
+          bigTiles: ppu.bigTiles[layer],
+          hScroll: ppu.bgHoff[layer],
+          vScroll: ppu.bgVoff[layer]
+        });
+      }
+    }
+
+    return {
+      mode: ppu.mode,
+      hires: ppu.mode === 5 || ppu.mode === 6,
+      interlace: ppu.interlace,
+      oddField: ppu.evenFrame,  // the PPU draws this field on lines y * 2 + 1
+      overscan: ppu.frameOverscan,
+      layers,
+      vram: new Uint16Array(ppu.vram)
+    };
+  }
+
+  /**
+   * Write a single byte to WRAM
+   * @param address Address to write (0x0000 to 0x1FFFF)
+   * @param value Byte value
+   * @param freeze Re-apply the value before every frame
+   */
+  public writeRamByte(address: number, value: number, freeze: boolean = false): void {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    if (address < 0 || address >= 0x20000) {
+      throw new Error(`Invalid RAM address: ${address.toString(16)}`);
+    }
+
+    this.snes.ram[address] = value & 0xFF;
+    if (freeze) {
+      this.frozenRam.set(address, value & 0xFF);
+    }
+  }
+
+  /**
+   * Write a 16-bit word to WRAM (little-endian)
+   * @param address Address to write (0x0000 to 0x1FFFF)
+   * @param value 16-bit value
+   * @param freeze Re-apply the value before every frame
+   */
+  public writeRamWord(address: number, value: number, freeze: boolean = false): void {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    if (address < 0 || address >= 0x1FFFF) {
+      throw new Error(`Invalid RAM address: ${address.toString(16)}`);
+    }
+
+    this.writeRamByte(address, value & 0xFF, freeze);
+    this.writeRamByte(address + 1, (value >> 8) & 0xFF, freeze);
+  }
+
+  /**
+   * Write a run of bytes to WRAM
+   * @param startAddress Start address (0x0000 to 0x1FFFF)
+   * @param bytes Byte values to write
+   * @param freeze Re-apply the values before every frame
+   */
+  public writeRam(startAddress: number, bytes: ArrayLike<number>, freeze: boolean = false): void {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    if (startAddress < 0 || startAddress + bytes.length > 0x20000) {
+      throw new Error(`Invalid RAM range: ${startAddress.toString(16)} + ${bytes.length}`);
+    }
+
+    for (let i = 0; i < bytes.length; i++) {
+      this.writeRamByte(startAddress + i, bytes[i], freeze);
+    }
+  }
+
+  /**
+   * Stop re-applying frozen WRAM values
+   * @param startAddress Start of the range to unfreeze; omit to unfreeze everything
+   * @param length Number of bytes to unfreeze
+   * @returns Number of addresses unfrozen
+   */
+  public unfreezeRam(startAddress?: number, length: number = 1): number {
+    if (startAddress === undefined) {
+      const count = this.frozenRam.size;
+      this.frozenRam.clear();
+      return count;
+    }
+
+    let count = 0;
+    for (let i = 0; i < length; i++) {
+      if (this.frozenRam.delete(startAddress + i)) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Get the currently frozen WRAM values
+   * @returns Map of address to byte value
+   */
+  public getFrozenRam(): Map<number, number> {
+    return new Map(this.frozenRam);
+  }
+
+  /**
+   * Get a copy of the cartridge's battery-backed SRAM
+   * @returns SRAM contents, or undefined if the cart has no SRAM
+   */
+  public getSram(): Uint8Array | undefined {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    const cart = this.snes.cart;
+    if (!cart.hasSram || cart.sramSize === 0) {
+      return undefined;
+    }
+    return new Uint8Array(cart.sram);
+  }
+
+  /**
+   * Overwrite the cartridge's SRAM (extra bytes are ignored, missing bytes left as is)
+   * @param data Raw SRAM contents, e.g. from a .srm file
+   */
+  public setSram(data: Uint8Array): void {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    const sram: Uint8Array = this.snes.cart.sram;
+    sram.set(data.subarray(0, sram.length));
+  }
+
+  /**
+   * Replace the active cheats. Game Genie codes patch ROM reads in the cart,
+   * Pro Action Replay codes are written to WRAM before every frame.
+   * @param cheats Decoded cheats to apply
+   */
+  public setCheats(cheats: Cheat[]): void {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+
+    this.cheatRam.clear();
+    this.snes.cart.clearRomPatches();
+    for (const cheat of cheats) {
+      if (cheat.type === 'par' && cheat.ramAddress !== undefined) {
+        this.cheatRam.set(cheat.ramAddress, cheat.value);
+      } else if (cheat.type === 'game_genie') {
+        this.snes.cart.patchRom(cheat.address >> 16, cheat.address & 0xFFFF, cheat.value);
+      }
+    }
+  }
+
   /**
    * Save the full emulator state
    * @returns JSON-serializable state object
@@ -319,6 +982,17 @@ export class SNESEmulator {
     return this.snes.saveState();
   }
 
+  /**
+   * Save the full emulator state with memory kept as typed-array copies.
+   * Much cheaper than saveState(), but not JSON-serializable as is.
+   */
+  public saveStateFast(): object {
+    if (!this.romLoaded) {
+      throw new Error('No ROM loaded');
+    }
+    return this.snes.saveState((array: ArrayLike<number> & { slice(): unknown }) => array.slice());
+  }
+
   /**
    * Load a previously saved emulator state
    * @param state State object from saveState()
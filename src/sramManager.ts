@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SNESEmulator } from './snes';
+import { log } from './utils/logger';
+import { romBaseName, splitRomPath } from './romFile';
+
+/**
+ * Persists battery-backed SRAM to a raw .srm file, the same format other
+ * emulators use (the SRAM bytes with no header).
+ *
+ * The file lives next to the ROM (<rom>.srm) unless SRAM_DIR is set.
+ * It is loaded on ROM load and flushed on ROM switch, on exit, and once
+ * SRAM has stopped changing for FLUSH_DEBOUNCE_MS.
+ */
+export class SramManager {
+  private emulator: SNESEmulator;
+  private srmPath?: string;
+  private lastFlushed?: Uint8Array;
+  private lastSeen?: Uint8Array;
+  private lastChangeTime: number = 0;
+  private timer?: NodeJS.Timeout;
+
+  private readonly CHECK_INTERVAL_MS = 1000;
+  private readonly FLUSH_DEBOUNCE_MS = 2000;
+
+  constructor(emulator: SNESEmulator) {
+    this.emulator = emulator;
+
+    process.on('exit', () => this.flush());
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.once(signal, () => {
+        this.flush();
+        process.exit(signal === 'SIGINT' ? 130 : 143);
+      });
+    }
+  }
+
+  /**
+   * Path of the .srm file for a ROM
+   * @param romPath Path of the ROM file
+   */
+  getSrmPath(romPath: string): string {
+    const baseName = romBaseName(romPath) + '.srm';
+    const sramDir = process.env.SRAM_DIR;
+    return sramDir ? path.join(sramDir, baseName) : path.join(path.dirname(splitRomPath(romPath).file), baseName);
+  }
+
+  /**
+   * Start tracking the SRAM of a freshly loaded ROM, restoring its .srm file if present.
+   * Call flush() for the previous ROM before loading a new one.
+   * @param romPath Path of the ROM file
+   */
+  attach(romPath: string): void {
+    this.detach();
+
+    const sram = this.emulator.getSram();
+    if (!sram) {
+      log.verbose('ROM has no battery-backed SRAM');
+      return;
+    }
+
+    this.srmPath = this.getSrmPath(romPath);
+    if (fs.existsSync(this.srmPath)) {
+      const data = new Uint8Array(fs.readFileSync(this.srmPath));
+      if (data.length !== sram.length) {
+        log.warn(`SRAM file size ${data.length} differs from cart SRAM size ${sram.length}: ${this.srmPath}`);
+      }
+      this.emulator.setSram(data);
+      log.info(`Loaded SRAM from ${this.srmPath}`);
+    }
+
+    this.lastFlushed = this.emulator.getSram();
+    this.lastSeen = this.lastFlushed;
+    this.timer = setInterval(() => this.check(), this.CHECK_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  /**
+   * Flush, then stop persisting SRAM until the next attach().
+   * Used before the emulator's SRAM stops reflecting the player's save
+   * (e.g. a power-on that clears it).
+   */
+  release(): void {
+    this.flush();
+    if (this.srmPath) {
+      log.info(`SRAM persistence paused until the next attach: ${this.srmPath}`);
+    }
+    this.detach();
+  }
+
+  /**
+   * Stop tracking the current ROM without flushing
+   */
+  private detach(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.srmPath = undefined;
+    this.lastFlushed = undefined;
+    this.lastSeen = undefined;
+  }
+
+  /**
+   * Flush once SRAM has been stable for the debounce period
+   */
+  private check(): void {
+    if (!this.srmPath || !this.emulator.isRomLoaded()) return;
+
+    const current = this.emulator.getSram();
+    if (!current) return;
+
+    if (!sameBytes(current, this.lastSeen)) {
+      this.lastSeen = current;
+      this.lastChangeTime = Date.now();
+      return;
+    }
+    if (!sameBytes(current, this.lastFlushed) && Date.now() - this.lastChangeTime >= this.FLUSH_DEBOUNCE_MS) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Write SRAM to the .srm file if it changed since the last flush
+   */
+  flush(): void {
+    if (!this.srmPath || !this.emulator.isRomLoaded()) return;
+
+    const current = this.emulator.getSram();
+    if (!current || sameBytes(current, this.lastFlushed)) return;
+
+    try {
+      fs.mkdirSync(path.dirname(this.srmPath), { recursive: true });
+      fs.writeFileSync(this.srmPath, current);
+      this.lastFlushed = current;
+      log.info(`Flushed SRAM to ${this.srmPath}`);
+    } catch (error) {
+      log.error(`Failed to write SRAM file: ${this.srmPath}`, error);
+    }
+  }
+}
+
+function sameBytes(a: Uint8Array, b?: Uint8Array): boolean {
+  return b !== undefined && Buffer.from(a.buffer, a.byteOffset, a.length).equals(Buffer.from(b.buffer, b.byteOffset, b.length));
+}
@@ -5,10 +5,30 @@ import {
 import { z } from 'zod';
 import { SNESButton } from './types';
 import { EmulatorService } from './emulatorService';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import { log } from './utils/logger';
+import { listRomFiles } from './romFile';
+
+// Screenshot options shared by every tool that returns the screen
+export const screenshotOptionsSchema = z.object({
+  format: z.enum(['png', 'jpeg', 'webp']).optional().describe('Image format (default png; webp is lossless and usually the smallest)'),
+  quality: z.number().int().min(1).max(100).optional().describe('JPEG quality (default 80)'),
+  native: z.boolean().optional().describe('Native resolution (usually 256x224) cropped to the lines the game displays instead of 512x480'),
+  trim: z.boolean().optional().describe('Auto-detect the active area: cut solid-color borders such as letterboxing or blanked lines (applied before crop)'),
+  scale: z.number().int().min(1).max(4).optional().describe('Integer upscale factor, applied after cropping'),
+  crop: z.object({
+    x: z.number().int().min(0),
+    y: z.number().int().min(0),
+    width: z.number().int().min(1),
+    height: z.number().int().min(1)
+  }).optional().describe('Crop rectangle in pixels of the unscaled image (native pixels when native is set)'),
+  grayscale: z.boolean().optional().describe('Convert to grayscale')
+});
+
+const screenshotParam = screenshotOptionsSchema.optional()
+  .describe('Screenshot options; unset fields use the session defaults (see set_screenshot_defaults)');
 
 export function registerSNESTools(server: McpServer, emulatorService: EmulatorService): void {
   // Register button press tools
@@ -18,48 +38,245 @@ export function registerSNESTools(server: McpServer, emulatorService: EmulatorSe
       `Press the ${button} button on the SNES controller`,
       {
         duration_frames: z.number().int().positive().optional().default(25).describe('Number of frames to hold the button'),
-        include_screenshot: z.boolean().optional().default(true).describe('Whether to include a screenshot in the response (default true). Set to false to save context window space when you don\'t need to see the screen.')
+        player: z.union([z.literal(1), z.literal(2)]).optional().default(1).describe('Controller port to press the button on (1 or 2)'),
+        include_screenshot: z.boolean().optional().default(true).describe('Whether to include a screenshot in the response (default true). Set to false to save context window space when you don\'t need to see the screen.'),
+        screenshot: screenshotParam
       },
-      async ({ duration_frames, include_screenshot }): Promise<CallToolResult> => {
+      async ({ duration_frames, player, include_screenshot, screenshot }): Promise<CallToolResult> => {
         // Use async button press to prevent server blocking
-        await emulatorService.pressButtonAsync(button, duration_frames);
+        await emulatorService.pressButtonAsync(button, duration_frames, player);
         if (include_screenshot) {
-          const screen = emulatorService.advanceFrameAndGetScreen();
+          const screen = emulatorService.advanceFrameAndGetScreen(screenshot);
           return { content: [screen] };
         }
-        return { content: [{ type: 'text', text: JSON.stringify({ button, frames: duration_frames }) }] };
+        return { content: [{ type: 'text', text: JSON.stringify({ button, frames: duration_frames, player }) }] };
       }
     );
   });
 
+  // Register press_buttons tool
+  server.tool(
+    'press_buttons',
+    'Press several SNES buttons at the same time (e.g. B+RIGHT to run, L+R, UP+LEFT diagonals) and release them together',
+    {
+      buttons: z.array(z.nativeEnum(SNESButton)).min(1).max(12).describe('Buttons to hold together'),
+      duration_frames: z.number().int().positive().optional().default(25).describe('Number of frames to hold the buttons'),
+      player: z.union([z.literal(1), z.literal(2)]).optional().default(1).describe('Controller port to press the buttons on (1 or 2)'),
+      include_screenshot: z.boolean().optional().default(true).describe('Whether to include a screenshot in the response (default true). Set to false to save context window space when you don\'t need to see the screen.'),
+      screenshot: screenshotParam
+    },
+    async ({ buttons, duration_frames, player, include_screenshot, screenshot }): Promise<CallToolResult> => {
+      const uniqueButtons = Array.from(new Set(buttons));
+      await emulatorService.pressButtonsAsync(uniqueButtons, duration_frames, player);
+      if (include_screenshot) {
+        const screen = emulatorService.advanceFrameAndGetScreen(screenshot);
+        return { content: [screen] };
+      }
+      return { content: [{ type: 'text', text: JSON.stringify({ buttons: uniqueButtons, frames: duration_frames, player }) }] };
+    }
+  );
+
+  // Register run_input_sequence tool
+  server.tool(
+    'run_input_sequence',
+    'Run a frame-accurate input timeline in one call: each step holds a set of buttons (or nothing, to wait) for a number of frames. Returns one screenshot at the end and optional RAM readings after each step.',
+    {
+      steps: z.array(z.object({
+        buttons: z.array(z.nativeEnum(SNESButton)).optional().describe('Buttons held during this step (omit or empty to wait)'),
+        frames: z.number().int().min(1).max(3600).describe('Number of frames for this step'),
+        player: z.union([z.literal(1), z.literal(2)]).optional().describe('Controller port (default 1)')
+      })).min(1).max(200).describe('Ordered input steps'),
+      ram_reads: z.array(z.object({
+        address: z.number().int().min(0).max(0x1FFFF).describe('WRAM address (0x0000 to 0x1FFFF)'),
+        width: z.union([z.literal(8), z.literal(16)]).optional().describe('Value width in bits (default 8)'),
+        label: z.string().optional().describe('Name to report the value under')
+      }).refine(read => read.width !== 16 || read.address <= 0x1FFFE, {
+        message: '16-bit reads need an address of at most 0x1FFFE',
+        path: ['address']
+      })).max(32).optional().describe('WRAM values to read after each step'),
+      include_screenshot: z.boolean().optional().default(true).describe('Whether to include a screenshot in the response (default true). Set to false to save context window space when you don\'t need to see the screen.'),
+      screenshot: screenshotParam
+    },
+    async ({ steps, ram_reads, include_screenshot, screenshot }): Promise<CallToolResult> => {
+      const results = await emulatorService.runInputSequenceAsync(steps, ram_reads);
+      const summary: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ steps: results.length, frames: results[results.length - 1].frame, results })
+      };
+      if (include_screenshot) {
+        const screen = emulatorService.advanceFrameAndGetScreen(screenshot);
+        return { content: [summary, screen] };
+      }
+      return { content: [summary] };
+    }
+  );
+
   // Register wait_frames tool
   server.tool(
     'wait_frames',
     'Wait for a specified number of frames',
     {
       duration_frames: z.number().int().positive().describe('Number of frames to wait').default(100),
-      include_screenshot: z.boolean().optional().default(true).describe('Whether to include a screenshot in the response (default true). Set to false to save context window space when you don\'t need to see the screen.')
+      include_screenshot: z.boolean().optional().default(true).describe('Whether to include a screenshot in the response (default true). Set to false to save context window space when you don\'t need to see the screen.'),
+      screenshot: screenshotParam
     },
-    async ({ duration_frames, include_screenshot }): Promise<CallToolResult> => {
+    async ({ duration_frames, include_screenshot, screenshot }): Promise<CallToolResult> => {
       // Use async wait to prevent server blocking
       await emulatorService.waitFramesAsync(duration_frames);
       if (include_screenshot) {
-        const screen = emulatorService.advanceFrameAndGetScreen();
+        const screen = emulatorService.advanceFrameAndGetScreen(screenshot);
         return { content: [screen] };
       }
       return { content: [{ type: 'text', text: JSON.stringify({ waited_frames: duration_frames }) }] };
     }
   );
 
+  // Register wait_until tool
+  server.tool(
+    'wait_until',
+    'Advance frames until a condition on WRAM is true, or until max_frames pass. Returns the elapsed frames and whether it timed out.',
+    {
+      conditions: z.array(z.object({
+        address: z.number().int().min(0).max(0x1FFFF).describe('WRAM address (0x0000 to 0x1FFFF)'),
+        width: z.union([z.literal(8), z.literal(16)]).optional().describe('Value width in bits (default 8)'),
+        op: z.enum(['equals', 'not_equals', 'crosses_above', 'crosses_below', 'changed'])
+          .describe('equals/not_equals compare with value; crosses_above/crosses_below fire when the value passes it; changed fires when the address differs from its starting value'),
+        value: z.number().int().optional().describe('Value to compare against (not needed for changed)')
+      }).refine(condition => condition.width !== 16 || condition.address <= 0x1FFFE, {
+        message: '16-bit conditions need an address of at most 0x1FFFE',
+        path: ['address']
+      })).min(1).max(16).describe('Conditions to check after every frame'),
+      combine: z.enum(['all', 'any']).optional().default('all').describe('all = AND, any = OR'),
+      max_frames: z.number().int().min(1).max(36000).optional().default(600).describe('Timeout in frames'),
+      include_screenshot: z.boolean().optional().default(true).describe('Whether to include a screenshot in the response (default true). Set to false to save context window space when you don\'t need to see the screen.'),
+      screenshot: screenshotParam
+    },
+    async ({ conditions, combine, max_frames, include_screenshot, screenshot }): Promise<CallToolResult> => {
+      const result = await emulatorService.waitUntilAsync(conditions, combine, max_frames);
+      const summary: TextContent = { type: 'text', text: JSON.stringify(result) };
+      if (include_screenshot) {
+        const screen = emulatorService.advanceFrameAndGetScreen(screenshot);
+        return { content: [summary, screen] };
+      }
+      return { content: [summary] };
+    }
+  );
+
+  // Register wait_for_screen_stable tool
+  server.tool(
+    'wait_for_screen_stable',
+    'Advance frames until the screen stops changing (e.g. after a fade or menu transition), then return the elapsed frames and a screenshot',
+    {
+      stable_frames: z.number().int().min(1).max(600).optional().default(10).describe('Number of consecutive unchanged frames required'),
+      threshold: z.number().min(0).max(1).optional().default(0).describe('Fraction of pixels (0-1) allowed to change per frame while still counting as stable'),
+      max_frames: z.number().int().min(1).max(36000).optional().default(600).describe('Timeout in frames'),
+      screenshot: screenshotParam
+    },
+    async ({ stable_frames, threshold, max_frames, screenshot }): Promise<CallToolResult> => {
+      const result = await emulatorService.waitForScreenAsync('stable', threshold, stable_frames, max_frames);
+      const screen = emulatorService.getScreen(screenshot);
+      return { content: [{ type: 'text', text: JSON.stringify(result) }, screen] };
+    }
+  );
+
+  // Register wait_for_screen_change tool
+  server.tool(
+    'wait_for_screen_change',
+    'Advance frames until the screen changes by more than a threshold, then return the elapsed frames and a screenshot',
+    {
+      threshold: z.number().min(0).max(1).optional().default(0.01).describe('Fraction of pixels (0-1) that must differ from the starting frame'),
+      max_frames: z.number().int().min(1).max(36000).optional().default(600).describe('Timeout in frames'),
+      screenshot: screenshotParam
+    },
+    async ({ threshold, max_frames, screenshot }): Promise<CallToolResult> => {
+      const result = await emulatorService.waitForScreenAsync('change', threshold, 0, max_frames);
+      const screen = emulatorService.getScreen(screenshot);
+      return { content: [{ type: 'text', text: JSON.stringify(result) }, screen] };
+    }
+  );
+
+  // Register start_movie_recording tool
+  server.tool(
+    'start_movie_recording',
+    'Start recording every frame of controller input (from tools, the browser and WebSocket clients) into a BK2-style input movie',
+    {
+      name: z.string().describe('Movie name (letters, digits, spaces, - _ . ( ) [ ])'),
+      anchor: z.enum(['power_on', 'savestate']).optional().default('savestate').describe("'power_on' hard-resets the console first (clears WRAM and SRAM); 'savestate' starts from the current state")
+    },
+    async ({ name, anchor }): Promise<CallToolResult> => {
+      return { content: [emulatorService.startMovieRecording(name, anchor)] };
+    }
+  );
+
+  // Register stop_movie_recording tool
+  server.tool(
+    'stop_movie_recording',
+    'Stop recording the input movie and write it to disk',
+    {},
+    async (): Promise<CallToolResult> => {
+      return { content: [emulatorService.stopMovieRecording()] };
+    }
+  );
+
+  // Register play_movie tool
+  server.tool(
+    'play_movie',
+    'Replay a recorded input movie frame for frame from its anchor (power-on or save state) and return a screenshot of the last frame',
+    {
+      name: z.string().describe('Movie name')
+    },
+    async ({ name }): Promise<CallToolResult> => {
+      const result = await emulatorService.playMovieAsync(name);
+      const screen = emulatorService.getScreen();
+      return { content: [{ type: 'text', text: JSON.stringify(result) }, screen] };
+    }
+  );
+
+  // Register list_movies tool
+  server.tool(
+    'list_movies',
+    'List the recorded input movies',
+    {},
+    async (): Promise<CallToolResult> => {
+      return { content: [emulatorService.listMovies()] };
+    }
+  );
+
+  // Register rewind tool
+  server.tool(
+    'rewind',
+    'Go back in time by a number of frames or seconds, using the automatic rewind history. Restores the nearest snapshot and replays the recorded inputs forward to the exact frame.',
+    {
+      frames: z.number().int().positive().optional().describe('Number of frames to go back'),
+      seconds: z.number().positive().optional().describe('Number of seconds to go back (60 frames per second); ignored if frames is given'),
+      include_screenshot: z.boolean().optional().default(true).describe('Whether to include a screenshot in the response'),
+      screenshot: screenshotParam
+    },
+    async ({ frames, seconds, include_screenshot, screenshot }): Promise<CallToolResult> => {
+      const count = frames ?? Math.round((seconds ?? 1) * 60);
+      const result = await emulatorService.rewindAsync(count);
+      const text: TextContent = { type: 'text', text: JSON.stringify(result) };
+      if (include_screenshot) {
+        return { content: [text, emulatorService.getScreen(screenshot)] };
+      }
+      return { content: [text] };
+    }
+  );
+
   // Register load ROM tool
   server.tool(
     'load_rom',
-    'Load an SNES ROM file',
+    'Load an SNES ROM file (LoROM, HiROM or ExHiROM). ROMs that need an enhancement chip (SA-1, SuperFX, DSP-n, ...) load but can\'t run; the result then carries a warning',
     {
-      romPath: z.string().describe('Path to the .smc or .sfc ROM file')
+      romPath: z.string().describe('Path to the .smc or .sfc ROM file, a .zip/.gz holding one, or archive.zip#entry for a zip with several'),
+      patchPath: z.string().optional().describe('IPS, BPS or UPS patch to apply in memory (default: a .bps/.ups/.ips next to the ROM with the same base name, if any; "" loads the ROM unpatched)')
     },
-    async ({ romPath }): Promise<CallToolResult> => {
-      const screen = emulatorService.loadRom(romPath);
+    async ({ romPath, patchPath }): Promise<CallToolResult> => {
+      const screen = emulatorService.loadRom(romPath, patchPath);
+      const warnings = emulatorService.getRomWarnings();
+      if (warnings.length > 0) {
+        return { content: [screen, { type: 'text', text: JSON.stringify({ warnings }) }] };
+      }
       return { content: [screen] };
     }
   );
@@ -68,13 +285,73 @@ export function registerSNESTools(server: McpServer, emulatorService: EmulatorSe
   server.tool(
     'get_screen',
     'Get the current SNES screen (advances one frame)',
-    {},
-    async (): Promise<CallToolResult> => {
-      const screen = emulatorService.advanceFrameAndGetScreen();
+    {
+      screenshot: screenshotParam
+    },
+    async ({ screenshot }): Promise<CallToolResult> => {
+      const screen = emulatorService.advanceFrameAndGetScreen(screenshot);
       return { content: [screen] };
     }
   );
 
+  // Register capture_animation tool
+  server.tool(
+    'capture_animation',
+    'Advance N frames and capture every k-th frame as an animated GIF or APNG, or as a sprite-sheet grid PNG for clients that only show static images. Use it to see what happens between screenshots, e.g. an enemy attack pattern.',
+    {
+      duration_frames: z.number().int().min(1).max(600).optional().default(60).describe('Number of frames to advance'),
+      every: z.number().int().min(1).max(60).optional().default(4).describe('Sample every k-th frame'),
+      format: z.enum(['gif', 'apng', 'sheet']).optional().default('gif').describe('gif/apng = animation, sheet = static grid of the sampled frames'),
+      columns: z.number().int().min(1).max(32).optional().describe('Frames per row in a sprite sheet (default: roughly square)'),
+      screenshot: screenshotParam
+    },
+    async ({ duration_frames, every, format, columns, screenshot }): Promise<CallToolResult> => {
+      if (Math.ceil(duration_frames / every) > 150) {
+        throw new Error('Too many frames to capture (max 150 samples); increase every or reduce duration_frames');
+      }
+      const result = await emulatorService.captureAnimationAsync(duration_frames, every, format, screenshot, columns);
+      const summary: TextContent = {
+        type: 'text',
+        text: JSON.stringify({ format, frames: result.frames, every, width: result.width, height: result.height })
+      };
+      return { content: [summary, result.image] };
+    }
+  );
+
+  // Register record_audio tool
+  server.tool(
+    'record_audio',
+    'Advance N frames while recording the game audio. Returns loudness analysis (RMS, peak, silence, regions with sound) and the 16-bit stereo WAV as audio content, or saves the WAV to disk.',
+    {
+      duration_frames: z.number().int().min(1).max(1800).optional().default(180).describe('Number of frames to record (60 per second)'),
+      silence_db: z.number().max(0).optional().default(-50).describe('RMS level in dBFS below which a frame counts as silent'),
+      save_to_file: z.boolean().optional().default(false).describe('Save the WAV under AUDIO_DIR and return its path instead of the audio data')
+    },
+    async ({ duration_frames, silence_db, save_to_file }): Promise<CallToolResult> => {
+      const { wav, analysis } = await emulatorService.recordAudioAsync(duration_frames, silence_db);
+      if (save_to_file) {
+        const file = emulatorService.saveAudioFile(wav);
+        return { content: [{ type: 'text', text: JSON.stringify({ ...analysis, file }) }] };
+      }
+      return {
+        content: [
+          { type: 'text', text: JSON.stringify(analysis) },
+          { type: 'audio', data: wav.toString('base64'), mimeType: 'audio/wav' }
+        ]
+      };
+    }
+  );
+
+  // Register set_screenshot_defaults tool
+  server.tool(
+    'set_screenshot_defaults',
+    'Set the screenshot options used by every tool that returns the screen when a call does not override them (e.g. native 256x224 JPEG to save context). Call with no options to restore 512x480 PNG.',
+    screenshotOptionsSchema.shape,
+    async (options): Promise<CallToolResult> => {
+      return { content: [emulatorService.setScreenshotDefaults(options)] };
+    }
+  );
+
   // Register is_rom_loaded tool
   server.tool(
     'is_rom_loaded',
@@ -104,7 +381,7 @@ export function registerSNESTools(server: McpServer, emulatorService: EmulatorSe
   // Register save_state tool
   server.tool(
     'save_state',
-    'Save the current emulator state to a numbered slot (0-9)',
+    'Save the current emulator state to a numbered slot (0-9), persisted to disk per ROM',
     {
       slot: z.number().int().min(0).max(9).optional().default(0).describe('Save slot number (0-9)')
     },
@@ -120,10 +397,11 @@ export function registerSNESTools(server: McpServer, emulatorService: EmulatorSe
     'Load a previously saved emulator state from a numbered slot (0-9)',
     {
       slot: z.number().int().min(0).max(9).optional().default(0).describe('Save slot number (0-9)'),
-      include_screenshot: z.boolean().optional().default(true).describe('Whether to include a screenshot in the response')
+      include_screenshot: z.boolean().optional().default(true).describe('Whether to include a screenshot in the response'),
+      screenshot: screenshotParam
     },
-    async ({ slot, include_screenshot }): Promise<CallToolResult> => {
-      const screen = emulatorService.loadState(slot);
+    async ({ slot, include_screenshot, screenshot }): Promise<CallToolResult> => {
+      const screen = emulatorService.loadState(slot, screenshot);
       if (include_screenshot) {
         return { content: [screen] };
       }
@@ -131,10 +409,23 @@ export function registerSNESTools(server: McpServer, emulatorService: EmulatorSe
     }
   );
 
+  // Register list_states tool
+  server.tool(
+    'list_states',
+    'List the save-state slots stored on disk for the current ROM',
+    {
+      include_thumbnails: z.boolean().optional().default(false).describe('Whether to include a thumbnail image for each slot')
+    },
+    async ({ include_thumbnails }): Promise<CallToolResult> => {
+      const content = emulatorService.listStates(include_thumbnails);
+      return { content };
+    }
+  );
+
   // Register list_roms tool
   server.tool(
     'list_roms',
-    'List all available SNES ROM files',
+    'List all available SNES ROM files (.smc/.sfc, also inside .zip/.gz; ROMs of a multi-ROM zip are listed as archive.zip#entry). With DAT files in dats/, each ROM is matched by hash and reports its canonical name, region, revision and dump status (verified, good, bad_dump, or unknown = not in any DAT)',
     {},
     async (): Promise<CallToolResult> => {
       try {
@@ -145,12 +436,8 @@ export function registerSNESTools(server: McpServer, emulatorService: EmulatorSe
           log.info('Created roms directory');
         }
 
-        const romFiles = fs.readdirSync(romsDir)
-          .filter(file => file.endsWith('.smc') || file.endsWith('.sfc'))
-          .map(file => ({
-            name: file,
-            path: path.join(romsDir, file)
-          }));
+        const romFiles = listRomFiles(romsDir, (file, error) => log.warn(`Skipping unreadable zip ${file}`, String(error)))
+          .map(rom => ({ ...rom, dat: emulatorService.identifyRom(rom.path) }));
 
         const responseText: TextContent = {
           type: 'text',
@@ -193,14 +480,288 @@ export function registerSNESTools(server: McpServer, emulatorService: EmulatorSe
     }
   );
 
-  // Register check_dialog_state tool
+  // Register get_rom_info tool
   server.tool(
-    'check_dialog_state',
-    'Check if a dialog box is currently active (Chrono Trigger specific)',
+    'get_rom_info',
+    'Get the loaded ROM\'s internal header (title, LoROM/HiROM/ExHiROM, FastROM, chipset and coprocessor, whether it is supported, declared vs. actual size, SRAM size, region, version), whether its checksum verifies, CRC32/SHA-1 of the ROM data and whether a copier header was stripped',
     {},
     async (): Promise<CallToolResult> => {
-      const result = emulatorService.checkDialogState();
+      const info = emulatorService.getRomInfo();
+      return { content: [{ type: 'text', text: JSON.stringify(info) }] };
+    }
+  );
+
+  // Register get_cpu_state tool
+  server.tool(
+    'get_cpu_state',
+    'Get the 65816 CPU registers (A/X/Y/SP/DP/DBR/PBR:PC), flags (NVMXDIZC, uppercase = set), emulation bit, pending NMI/IRQ and the current scanline/dot',
+    {},
+    async (): Promise<CallToolResult> => {
+      const state = emulatorService.getCpuState();
+      return { content: [{ type: 'text', text: JSON.stringify(state) }] };
+    }
+  );
+
+  // Register disassemble tool
+  server.tool(
+    'disassemble',
+    'Disassemble 65816 code from the CPU bus. Immediate operand sizes follow the current M/X flags and any REP/SEP in the listing; the current PC is marked with ">"',
+    {
+      address: z.number().int().min(0).max(0xFFFFFF).optional().describe('24-bit bus address to start at (defaults to the current PC)'),
+      count: z.number().int().min(1).max(256).optional().default(16).describe('Number of instructions to decode'),
+      around_pc: z.boolean().optional().default(false).describe('Center the listing on the current PC (ignores address)')
+    },
+    async ({ address, count, around_pc }): Promise<CallToolResult> => {
+      const listing = emulatorService.disassemble(address, count, around_pc);
+      return { content: [{ type: 'text', text: listing }] };
+    }
+  );
+
+  // Register dump_vram tool
+  server.tool(
+    'dump_vram',
+    'Dump a range of PPU VRAM (64KB: tiles and tilemaps) for debugging',
+    {
+      start_address: z.number().int().min(0).max(0xFFFF).optional().default(0).describe('Start byte address (0x0000 to 0xFFFF)'),
+      length: z.number().int().min(1).max(4096).optional().default(256).describe('Number of bytes to dump (max 4096)')
+    },
+    async ({ start_address, length }): Promise<CallToolResult> => {
+      const result = emulatorService.dumpVram(start_address, length);
+      return { content: [result] };
+    }
+  );
+
+  // Register dump_cgram tool
+  server.tool(
+    'dump_cgram',
+    'Dump a range of PPU CGRAM (512 bytes: 256 BGR555 palette colors) for debugging',
+    {
+      start_address: z.number().int().min(0).max(0x1FF).optional().default(0).describe('Start byte address (0x000 to 0x1FF)'),
+      length: z.number().int().min(1).max(0x200).optional().default(0x200).describe('Number of bytes to dump (max 512)')
+    },
+    async ({ start_address, length }): Promise<CallToolResult> => {
+      const result = emulatorService.dumpCgram(start_address, length);
+      return { content: [result] };
+    }
+  );
+
+  // Register dump_oam tool
+  server.tool(
+    'dump_oam',
+    'Dump a range of PPU OAM (544 bytes: 512-byte sprite table then 32-byte high table) for debugging',
+    {
+      start_address: z.number().int().min(0).max(0x21F).optional().default(0).describe('Start byte address (0x000 to 0x21F)'),
+      length: z.number().int().min(1).max(0x220).optional().default(0x220).describe('Number of bytes to dump (max 544)')
+    },
+    async ({ start_address, length }): Promise<CallToolResult> => {
+      const result = emulatorService.dumpOam(start_address, length);
+      return { content: [result] };
+    }
+  );
+
+  // Register write_ram_byte tool
+  server.tool(
+    'write_ram_byte',
+    'Write a byte to WRAM (Work RAM), optionally freezing it so it is re-applied every frame',
+    {
+      address: z.number().int().min(0).max(0x1FFFF).describe('Address to write (0x0000 to 0x1FFFF)'),
+      value: z.number().int().min(0).max(0xFF).describe('Byte value (0-255)'),
+      freeze: z.boolean().optional().default(false).describe('Re-apply the value every frame until unfrozen')
+    },
+    async ({ address, value, freeze }): Promise<CallToolResult> => {
+      const result = emulatorService.writeRamByte(address, value, freeze);
+      return { content: [result] };
+    }
+  );
+
+  // Register write_ram_word tool
+  server.tool(
+    'write_ram_word',
+    'Write a 16-bit little-endian word to WRAM, optionally freezing it so it is re-applied every frame',
+    {
+      address: z.number().int().min(0).max(0x1FFFE).describe('Address to write (0x0000 to 0x1FFFE)'),
+      value: z.number().int().min(0).max(0xFFFF).describe('16-bit value (0-65535)'),
+      freeze: z.boolean().optional().default(false).describe('Re-apply the value every frame until unfrozen')
+    },
+    async ({ address, value, freeze }): Promise<CallToolResult> => {
+      const result = emulatorService.writeRamWord(address, value, freeze);
+      return { content: [result] };
+    }
+  );
+
+  // Register write_ram tool
+  server.tool(
+    'write_ram',
+    'Write a run of bytes to WRAM starting at an address, optionally freezing them',
+    {
+      start_address: z.number().int().min(0).max(0x1FFFF).describe('Start address (0x0000 to 0x1FFFF)'),
+      bytes: z.array(z.number().int().min(0).max(0xFF)).min(1).max(4096).describe('Byte values to write (max 4096)'),
+      freeze: z.boolean().optional().default(false).describe('Re-apply the values every frame until unfrozen')
+    },
+    async ({ start_address, bytes, freeze }): Promise<CallToolResult> => {
+      const result = emulatorService.writeRam(start_address, bytes, freeze);
+      return { content: [result] };
+    }
+  );
+
+  // Register unfreeze_ram tool
+  server.tool(
+    'unfreeze_ram',
+    'Stop re-applying frozen WRAM values (all of them if no address is given)',
+    {
+      address: z.number().int().min(0).max(0x1FFFF).optional().describe('Start address to unfreeze (omit to unfreeze everything)'),
+      length: z.number().int().min(1).max(4096).optional().default(1).describe('Number of bytes to unfreeze')
+    },
+    async ({ address, length }): Promise<CallToolResult> => {
+      const result = emulatorService.unfreezeRam(address, length);
       return { content: [result] };
     }
   );
+
+  // Register ram_search_start tool
+  server.tool(
+    'ram_search_start',
+    'Start a RAM search (cheat finder): snapshot WRAM with every address as a candidate',
+    {
+      width: z.union([z.literal(8), z.literal(16)]).optional().default(8).describe('Value width in bits (8 or 16)')
+    },
+    async ({ width }): Promise<CallToolResult> => {
+      const result = emulatorService.ramSearchStart(width);
+      return { content: [result] };
+    }
+  );
+
+  // Register ram_search_filter tool
+  server.tool(
+    'ram_search_filter',
+    'Narrow the RAM search by comparing current WRAM against the previous snapshot, then take a new snapshot',
+    {
+      comparison: z.enum(['equal', 'not_equal', 'increased', 'decreased', 'changed_by', 'equal_to'])
+        .describe('equal/not_equal/increased/decreased compare against the previous snapshot; changed_by and equal_to use value'),
+      value: z.number().int().optional().describe('Operand for changed_by (signed difference) and equal_to')
+    },
+    async ({ comparison, value }): Promise<CallToolResult> => {
+      const result = emulatorService.ramSearchFilter(comparison, value);
+      return { content: [result] };
+    }
+  );
+
+  // Register ram_search_results tool
+  server.tool(
+    'ram_search_results',
+    'List the remaining RAM search candidates with their current and previous values',
+    {
+      limit: z.number().int().min(1).max(1000).optional().default(50).describe('Maximum number of candidates to list')
+    },
+    async ({ limit }): Promise<CallToolResult> => {
+      const result = emulatorService.ramSearchResults(limit);
+      return { content: [result] };
+    }
+  );
+
+  // Register add_cheat tool
+  server.tool(
+    'add_cheat',
+    'Add a Game Genie (XXXX-XXXX) or Pro Action Replay (7E1234AB) cheat code for the current ROM',
+    {
+      code: z.string().describe('Cheat code, e.g. DD32-6DAD (Game Genie) or 7E0DBE09 (Pro Action Replay)'),
+      description: z.string().optional().describe('What the cheat does')
+    },
+    async ({ code, description }): Promise<CallToolResult> => {
+      const result = emulatorService.addCheat(code, description);
+      return { content: [result] };
+    }
+  );
+
+  // Register remove_cheat tool
+  server.tool(
+    'remove_cheat',
+    'Remove a cheat code from the current ROM',
+    {
+      code: z.string().describe('Cheat code to remove')
+    },
+    async ({ code }): Promise<CallToolResult> => {
+      const result = emulatorService.removeCheat(code);
+      return { content: [result] };
+    }
+  );
+
+  // Register list_cheats tool
+  server.tool(
+    'list_cheats',
+    'List the cheat codes active for the current ROM',
+    {},
+    async (): Promise<CallToolResult> => {
+      const result = emulatorService.listCheats();
+      return { content: [result] };
+    }
+  );
+
+  // Register read_screen_text tool
+  server.tool(
+    'read_screen_text',
+    'Read on-screen text (dialogue, menus) from the background tilemaps in VRAM, line by line with screen positions. Uses the ROM\'s character table (tables/<rom>.tbl); without one, returns raw tile numbers per row so a table can be built.',
+    {
+      layers: z.array(z.number().int().min(1).max(4)).min(1).max(4).optional().describe('BG layers to read (1-4); default: all layers enabled on screen')
+    },
+    async ({ layers }): Promise<CallToolResult> => {
+      return { content: [emulatorService.readScreenText(layers)] };
+    }
+  );
+
+  // Register get_game_state tool
+  server.tool(
+    'get_game_state',
+    'Read the named RAM variables (HP, location, menu state, ...) and derived flags (e.g. dialog open) defined by the game profile for the loaded ROM',
+    {},
+    async (): Promise<CallToolResult> => {
+      return { content: [emulatorService.getGameState()] };
+    }
+  );
+
+  // Register reload_game_profile tool
+  server.tool(
+    'reload_game_profile',
+    'Reload the game profiles from disk (e.g. after editing one) and pick the one matching the loaded ROM',
+    {},
+    async (): Promise<CallToolResult> => {
+      if (!emulatorService.isRomLoaded()) {
+        throw new Error('No ROM loaded');
+      }
+      const profile = emulatorService.reloadGameProfile();
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(profile
+            ? { profile: profile.name, file: profile.file, tools: profile.tools.map(tool => tool.name) }
+            : { profile: null })
+        }]
+      };
+    }
+  );
+
+  // Profile-defined tools exist only while their ROM is loaded
+  let profileTools: RegisteredTool[] = [];
+  emulatorService.onGameProfileChange(profile => {
+    profileTools.forEach(tool => tool.remove());
+    profileTools = [];
+
+    for (const definition of profile?.tools ?? []) {
+      const only = definition.variables || definition.flags
+        ? { variables: definition.variables, flags: definition.flags }
+        : undefined;
+      try {
+        profileTools.push(server.tool(
+          definition.name,
+          `${definition.description} (${profile!.name} profile)`,
+          {},
+          async (): Promise<CallToolResult> => {
+            return { content: [emulatorService.getGameState(only)] };
+          }
+        ));
+      } catch (error) {
+        log.warn(`Skipping profile tool ${definition.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  });
 }
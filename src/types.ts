@@ -36,10 +36,59 @@ export const SNES_BUTTON_MAP: Record<SNESButton, number> = {
   [SNESButton.R]: 11
 };
 
+// Controller port (1 or 2)
+export type SNESPlayer = 1 | 2;
+
+// Command queued for frame-by-frame replay in the browser
+export interface QueuedCommand {
+  type: 'button_press' | 'wait_frames';
+  button?: SNESButton;
+  buttons?: SNESButton[];
+  durationFrames: number;
+  player?: SNESPlayer;
+}
+
+// One step of an input timeline: hold buttons (or nothing, to wait) for N frames
+export interface InputStep {
+  buttons?: SNESButton[];
+  frames: number;
+  player?: SNESPlayer;
+}
+
+// WRAM value to sample after each input step
+export interface RamRead {
+  address: number;
+  width?: 8 | 16;
+  label?: string;
+}
+
+// Screenshot encoding; unset fields fall back to the session defaults
+export interface ScreenshotOptions {
+  format?: 'png' | 'jpeg' | 'webp';
+  quality?: number;  // JPEG quality, 1-100 (WebP is lossless)
+  native?: boolean;  // native resolution, cropped to the lines the PPU outputs
+  trim?: boolean;    // cut solid-color borders (letterboxing, blanked lines and columns)
+  scale?: number;    // integer upscale factor, applied after crop
+  crop?: { x: number; y: number; width: number; height: number }; // in pre-scale pixels
+  grayscale?: boolean;
+}
+
 // Tool schemas
 export interface PressButtonToolSchema {
   button: SNESButton;
   duration_frames?: number;
+  player?: SNESPlayer;
+}
+
+export interface PressButtonsToolSchema {
+  buttons: SNESButton[];
+  duration_frames?: number;
+  player?: SNESPlayer;
+}
+
+export interface RunInputSequenceToolSchema {
+  steps: InputStep[];
+  ram_reads?: RamRead[];
 }
 
 export interface WaitFramesToolSchema {
@@ -54,6 +103,79 @@ export interface GetScreenToolSchema {
   // No parameters needed
 }
 
+// Decoded 65816 register view
+export interface CpuState {
+  a: number;
+  x: number;
+  y: number;
+  sp: number;
+  dp: number;
+  dbr: number;
+  pbr: number;
+  pc: number;
+  flags: {
+    n: boolean; v: boolean; m: boolean; x: boolean;
+    d: boolean; i: boolean; z: boolean; c: boolean;
+  };
+  emulationMode: boolean;
+  nmiPending: boolean;
+  irqPending: boolean;
+  stopped: boolean;
+  waiting: boolean;
+  scanline: number;
+  dot: number;
+}
+
+// Decoded internal ROM header plus checksums of the ROM data
+export interface RomInfo {
+  title: string;
+  mapping: 'LoROM' | 'HiROM' | 'ExHiROM';  // as loaded
+  mapMode: number;              // $FFD5
+  fastRom: boolean;
+  chipsetByte: number;          // $FFD6
+  chipset: string;
+  coprocessor?: string;         // enhancement chip, none of which the core emulates
+  declaredRomSize: number;      // bytes
+  actualRomSize: number;
+  sramSize: number;
+  country: number;              // $FFD9
+  region: string;
+  video: 'NTSC' | 'PAL';
+  developerId: number;
+  version: number;
+  complement: number;
+  checksum: number;
+  computedChecksum: number;
+  crc32: number;
+  sha1: string;
+  copierHeader: boolean;
+}
+
+// One background layer's registers as the PPU sees them at the end of a frame
+export interface BgLayerState {
+  layer: number;           // 0-3 = BG1-BG4
+  bitsPerPixel: number;
+  mainScreen: boolean;
+  subScreen: boolean;
+  tilemapAddress: number;  // VRAM word address
+  tilemapWide: boolean;    // 64 tiles across instead of 32
+  tilemapTall: boolean;    // 64 tiles down instead of 32
+  bigTiles: boolean;       // 16x16 tiles
+  hScroll: number;
+  vScroll: number;
+}
+
+// Background state needed to walk the tilemaps
+export interface PpuBgState {
+  mode: number;
+  hires: boolean;          // modes 5 and 6 use 16-pixel-wide tiles
+  interlace: boolean;      // hi-res layers then read two tilemap lines per screen line
+  oddField: boolean;       // which of the two the last frame showed
+  overscan: boolean;
+  layers: BgLayerState[];  // only the layers the mode has, never mode 7
+  vram: Uint16Array;
+}
+
 // Server configuration
 export interface SNESServerConfig {
   romPath?: string;
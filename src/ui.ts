@@ -2,7 +2,10 @@ import express, { Request, Response, RequestHandler } from 'express';
 import * as path from 'path';
 import * as fs from 'fs';
 import { EmulatorService } from './emulatorService';
-import { SNESButton } from './types';
+import type { RomIdentification } from './romDatabase';
+import { listRomFiles, romBaseName } from './romFile';
+import { screenshotOptionsSchema } from './tools';
+import { SNESButton, ScreenshotOptions } from './types';
 import { log } from './utils/logger';
 
 // Build a browser-compatible bundle of the SNES core (cached)
@@ -34,6 +37,40 @@ function getSnesCoreBundle(): string {
   return bundle;
 }
 
+/**
+ * Read screenshot options from query parameters:
+ * format=png|jpeg|webp, quality=1-100, native=1, trim=1, scale=1-4, crop=x,y,width,height, grayscale=1
+ * @returns Options, or an error message for an invalid parameter
+ */
+function parseScreenshotQuery(query: Request['query']): ScreenshotOptions | string {
+  const options: ScreenshotOptions = {};
+  const flag = (value: unknown) => value === '1' || value === 'true';
+
+  if (query.format !== undefined) {
+    if (query.format !== 'png' && query.format !== 'jpeg' && query.format !== 'webp') return 'format must be png, jpeg or webp';
+    options.format = query.format;
+  }
+  if (query.quality !== undefined) {
+    const quality = parseInt(query.quality as string, 10);
+    if (isNaN(quality) || quality < 1 || quality > 100) return 'quality must be 1-100';
+    options.quality = quality;
+  }
+  if (query.scale !== undefined) {
+    const scale = parseInt(query.scale as string, 10);
+    if (isNaN(scale) || scale < 1 || scale > 4) return 'scale must be 1-4';
+    options.scale = scale;
+  }
+  if (query.crop !== undefined) {
+    const parts = String(query.crop).split(',').map(n => parseInt(n, 10));
+    if (parts.length !== 4 || parts.some(isNaN)) return 'crop must be x,y,width,height';
+    options.crop = { x: parts[0], y: parts[1], width: parts[2], height: parts[3] };
+  }
+  if (query.native !== undefined) options.native = flag(query.native);
+  if (query.trim !== undefined) options.trim = flag(query.trim);
+  if (query.grayscale !== undefined) options.grayscale = flag(query.grayscale);
+  return options;
+}
+
 export function setupWebUI(app: express.Application, emulatorService: EmulatorService): void {
 
   // Serve SNES core as a browser JS bundle
@@ -45,18 +82,17 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
 
   // Serve the currently-loaded ROM as raw binary (for browser-side emulation)
   app.get('/api/rom-binary', (req: Request, res: Response) => {
-    const romPath = emulatorService.getRomPath();
-    if (!romPath) { res.status(404).send('No ROM loaded'); return; }
-    const fullPath = path.resolve(romPath);
-    if (!fs.existsSync(fullPath)) { res.status(404).send('ROM file not found'); return; }
+    // The image the server core runs (unpacked and patched), so both emulators match
+    const image = emulatorService.getRomImage();
+    if (!image) { res.status(404).send('No ROM loaded'); return; }
     res.setHeader('Content-Type', 'application/octet-stream');
-    res.sendFile(fullPath);
+    res.send(image);
   });
 
   // Main emulator page — runs SNES client-side at 60fps with sound
   app.get('/emulator', (req: Request, res: Response) => {
     const currentRomPath = emulatorService.getRomPath();
-    const romName = currentRomPath ? path.basename(currentRomPath).replace(/\.(smc|sfc)$/i, '') : 'No ROM';
+    const romName = currentRomPath ? romBaseName(currentRomPath) : 'No ROM';
 
     res.send(`<!DOCTYPE html>
 <html>
@@ -184,6 +220,8 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
     .snes-label-area { display: flex; align-items: center; justify-content: space-between; margin-bottom: 4px; }
     .snes-logo { font-size: 10px; color: var(--snes-label); letter-spacing: 2px; font-weight: bold; }
     .snes-rom-name { font-size: 6px; color: #666; letter-spacing: 1px; max-width: 200px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    .snes-rom-warning { font-size: 6px; color: #c33; letter-spacing: 1px; line-height: 1.6; margin-bottom: 4px; }
+    .snes-rom-warning.hidden { display: none; }
 
     .snes-controls-row { display: flex; align-items: center; justify-content: space-between; margin-bottom: 4px; }
 
@@ -252,6 +290,18 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
 
     .setting-divider { width: 1px; height: 18px; background: rgba(255,255,255,0.08); }
 
+    .cheat-panel {
+      display: flex; flex-direction: column; gap: 6px;
+      padding: 8px 12px; max-width: 260px;
+      background: rgba(30,30,30,0.85); border-radius: 6px;
+      border: 1px solid rgba(255,255,255,0.06);
+      position: fixed; bottom: 16px; left: 16px; z-index: 100;
+      backdrop-filter: blur(8px);
+    }
+    .cheat-panel.hidden { display: none; }
+    .cheat-item { font-size: 6px; color: #0f0; letter-spacing: 1px; line-height: 1.6; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+    .cheat-item .cheat-desc { color: #888; }
+
     /* ============ SNES CONTROLLER ============ */
     .snes-controller {
       --ctrl-primary: #d1d1cf;
@@ -616,6 +666,7 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
         <span class="snes-logo">Super Nintendo</span>
         <span class="snes-rom-name">${romName}</span>
       </div>
+      <div class="snes-rom-warning hidden" id="rom-warning"></div>
       <div class="snes-controls-row">
         <div>
           <span class="snes-power-label">POWER</span>
@@ -659,6 +710,10 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
       <button class="setting-btn" id="btn-rom-select" onclick="window.location.href='/'">ROM SELECT</button>
     </div>
   </div>
+  <div class="cheat-panel hidden" id="cheat-panel">
+    <span class="setting-label">CHEATS</span>
+    <div id="cheat-list"></div>
+  </div>
   <div id="toast" style="position:fixed;top:20px;left:50%;transform:translateX(-50%);background:rgba(0,0,0,0.85);color:#0f0;padding:10px 24px;border-radius:6px;font-family:monospace;font-size:14px;z-index:9999;opacity:0;transition:opacity 0.3s;pointer-events:none;"></div>
 
   <div class="wire-grow"><div class="wire-line"></div></div>
@@ -749,6 +804,7 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
     }
 
     function runOneFrameWithAudio() {
+      writeCheatRam();
       snes.runFrame();
       snes.setSamples(samplesL, samplesR, SAMPLES_PER_FRAME);
       pushAudioSamples();
@@ -764,16 +820,35 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
     var imageData = ctx.createImageData(512, 480);
     var statusOverlay = document.getElementById('status-overlay');
     var powerLed = document.getElementById('power-led');
+    var romWarning = document.getElementById('rom-warning');
     var powerSwitch = document.getElementById('power-switch');
 
     var snes = new SnesCore();
 
+    function padPress(player, btn) {
+      if (player === 2) snes.setPad2ButtonPressed(btn);
+      else snes.setPad1ButtonPressed(btn);
+    }
+
+    function padRelease(player, btn) {
+      if (player === 2) snes.setPad2ButtonReleased(btn);
+      else snes.setPad1ButtonReleased(btn);
+    }
+
     // ─── LoROM/HiROM Detection ───────────────────────────────
     function detectHiRom(data) {
       // Strip 512-byte copier header
       if (data.length % 1024 === 512) {
         data = data.slice(512);
       }
+      // ExHiROM: header at 0x40FFC0, map mode $25/$35
+      if (data.length > 0x400000 && data.length >= 0x40FFE0) {
+        var cE = data[0x40FFDC] | (data[0x40FFDD] << 8);
+        var sE = data[0x40FFDE] | (data[0x40FFDF] << 8);
+        if (((cE + sE) & 0xFFFF) === 0xFFFF && (data[0x40FFD5] & 0x0F) === 5) {
+          return { data: data, isHirom: true, isExHirom: true };
+        }
+      }
       var loromValid = false;
       if (data.length >= 0x7FE0) {
         var cL = data[0x7FDC] | (data[0x7FDD] << 8);
@@ -792,7 +867,7 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
         var hiType = data.length >= 0xFFD6 ? (data[0xFFD5] >> 4) : 0;
         isHirom = hiType === 3;
       }
-      return { data: data, isHirom: isHirom };
+      return { data: data, isHirom: isHirom, isExHirom: false };
     }
 
     // ─── ROM Loading ─────────────────────────────────────────
@@ -808,9 +883,10 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
         var buf = await resp.arrayBuffer();
         var bytes = new Uint8Array(buf);
         var detected = detectHiRom(bytes);
-        snes.loadRom(detected.data, detected.isHirom);
+        snes.loadRom(detected.data, detected.isHirom, detected.isExHirom);
         // Reset after loading so the CPU reads the reset vector from the cart
         snes.reset(true);
+        await loadCheats();
 
         // Set up audio output
         snes.setSamples(samplesL, samplesR, SAMPLES_PER_FRAME);
@@ -818,6 +894,7 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
         // Advance initial frames to match server state after ROM load
         var skip = initialFrames || 0;
         for (var i = 0; i < skip; i++) {
+          writeCheatRam();
           snes.runFrame();
         }
 
@@ -829,18 +906,97 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
         updatePauseBtn();
         initAudio();
         requestAnimationFrame(gameLoop);
+        checkRomSupport();
       } catch(e) {
         statusOverlay.textContent = 'NO SIGNAL';
         console.error('ROM load error:', e);
       }
     }
 
+    // Games that need an enhancement chip load but never run properly; say so
+    async function checkRomSupport() {
+      try {
+        var resp = await fetch('/api/rom-info');
+        if (!resp.ok) return;
+        var info = await resp.json();
+        if (info.supported === false) {
+          romWarning.textContent = info.coprocessor + ' coprocessor not emulated - this game will hang or show garbage';
+          romWarning.classList.remove('hidden');
+        } else {
+          romWarning.classList.add('hidden');
+        }
+      } catch(e) {
+        console.error('ROM info error:', e);
+      }
+    }
+
+    // ─── Cheats (mirrors the server's active cheat list) ────
+    var cheatPanel = document.getElementById('cheat-panel');
+    var cheatList = document.getElementById('cheat-list');
+    var cheatRamWrites = [];
+
+    function writeCheatRam() {
+      for (var i = 0; i < cheatRamWrites.length; i++) {
+        snes.ram[cheatRamWrites[i].ramAddress] = cheatRamWrites[i].value;
+      }
+    }
+
+    function applyCheats(cheats) {
+      cheatRamWrites = [];
+      if (snes.cart) snes.cart.clearRomPatches();
+      cheatList.innerHTML = '';
+      cheats.forEach(function(c) {
+        if (c.type === 'game_genie') {
+          if (snes.cart) snes.cart.patchRom(c.address >> 16, c.address & 0xffff, c.value);
+        } else if (c.ramAddress !== undefined) {
+          cheatRamWrites.push(c);
+        }
+        var item = document.createElement('div');
+        item.className = 'cheat-item';
+        item.textContent = c.code;
+        if (c.description) {
+          var desc = document.createElement('span');
+          desc.className = 'cheat-desc';
+          desc.textContent = ' ' + c.description;
+          item.appendChild(desc);
+        }
+        cheatList.appendChild(item);
+      });
+      cheatPanel.classList.toggle('hidden', cheats.length === 0);
+    }
+
+    async function loadCheats() {
+      try {
+        var resp = await fetch('/api/cheats');
+        if (resp.ok) applyCheats(await resp.json());
+      } catch(e) { console.warn('Failed to load cheats:', e); }
+    }
+
     // ─── MCP Command Queue (for smooth playback) ─────────────
     var mcpCommandQueue = [];
     var currentMcpCommand = null;
     var mcpFramesRemaining = 0;
     var mcpLastCommandId = 0;
 
+    // Button names held by a command (single press or combined press_buttons)
+    function commandButtons(cmd) {
+      return cmd.buttons || (cmd.button ? [cmd.button] : []);
+    }
+
+    // Forget queued commands, e.g. when the server's state replaces ours
+    function dropMcpCommands() {
+      if (currentMcpCommand && currentMcpCommand.type === 'button_press' && mcpFramesRemaining > 0) {
+        var cmd = currentMcpCommand;
+        commandButtons(cmd).forEach(function(name) {
+          var btnId = wsBtnNameToId[name];
+          if (btnId !== undefined) padRelease(cmd.player, btnId);
+        });
+      }
+      mcpCommandQueue = [];
+      currentMcpCommand = null;
+      mcpFramesRemaining = 0;
+    }
+
     function processMcpQueueFrame() {
       // If we have frames remaining in current command, consume one
       if (currentMcpCommand && mcpFramesRemaining > 0) {
@@ -851,12 +1007,14 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
           runOneFrameWithAudio();
           mcpFramesRemaining--;
 
-          // Release button on last frame
+          // Release buttons on last frame
           if (mcpFramesRemaining === 0) {
-            var btnId = wsBtnNameToId[currentMcpCommand.button];
-            if (btnId !== undefined) {
-              snes.setPad1ButtonReleased(btnId);
-            }
+            commandButtons(currentMcpCommand).forEach(function(name) {
+              var btnId = wsBtnNameToId[name];
+              if (btnId !== undefined) {
+                padRelease(currentMcpCommand.player, btnId);
+              }
+            });
           }
         } else {
           // wait_frames or advance_frame
@@ -874,18 +1032,22 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
 
         // Set up button press if needed
         if (currentMcpCommand.type === 'button_press') {
-          var btnId = wsBtnNameToId[currentMcpCommand.button];
-          if (btnId !== undefined) {
-            snes.setPad1ButtonPressed(btnId);
-          }
+          var player = currentMcpCommand.player;
+          var holdMs = mcpFramesRemaining * (1000 / 60);
+          commandButtons(currentMcpCommand).forEach(function(name) {
+            var btnId = wsBtnNameToId[name];
+            if (btnId !== undefined) {
+              padPress(player, btnId);
+            }
 
-          // Visual feedback on controller
-          var domId = wsBtnNameToDom[currentMcpCommand.button];
-          var el = domId ? document.getElementById(domId) : null;
-          if (el) { el.classList.add('pressed'); el.classList.add('mcp-pressed'); }
-          setTimeout(function() {
-            if (el) { el.classList.remove('pressed'); el.classList.remove('mcp-pressed'); }
-          }, mcpFramesRemaining * (1000 / 60));
+            // Visual feedback on controller (only player 1 is drawn)
+            var domId = player === 2 ? null : wsBtnNameToDom[name];
+            var el = domId ? document.getElementById(domId) : null;
+            if (el) { el.classList.add('pressed'); el.classList.add('mcp-pressed'); }
+            setTimeout(function() {
+              if (el) { el.classList.remove('pressed'); el.classList.remove('mcp-pressed'); }
+            }, holdMs);
+          });
         }
 
         // Process first frame of new command
@@ -905,12 +1067,47 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
     var NORMAL_SPEED_FRAMES = 1; // Normal frames per tick at 60fps
     var LOOP_TIME_BUDGET_MS = 10; // Avoid long single-tick bursts that cause audible hiccups
 
+    // ─── Rewind (hold Backspace) ─────────────────────────────
+    // Scrubs back through browser-local snapshots (one every REWIND_EVERY
+    // frames, with RAM kept as typed-array copies). On release the server rewinds by the same number of
+    // frames and sends its state back, which every browser then loads.
+    var REWIND_EVERY = 6;
+    var REWIND_MAX = 150; // 15 seconds
+    var rewindSnapshots = [];
+    var rewindHeld = false;
+    var rewindFromFrame = 0;
+    var awaitingStateSync = false;
+
+    function recordRewindSnapshot() {
+      if (snes.frames % REWIND_EVERY !== 0) return;
+      rewindSnapshots.push(snes.saveState(function(a) { return a.slice(); }));
+      if (rewindSnapshots.length > REWIND_MAX) rewindSnapshots.shift();
+    }
+
+    function rewindStep() {
+      var state = rewindSnapshots.pop();
+      if (!state) return;
+      snes.loadState(state);
+      // Run one silent frame to render the restored state
+      snes.runFrame();
+    }
+
     function gameLoop(ts) {
       requestAnimationFrame(gameLoop);
       if (!running || paused) return;
       if (ts - lastTime < FRAME_MS * 0.9) return;
       lastTime = ts - ((ts - lastTime) % FRAME_MS);
 
+      if (rewindHeld) {
+        rewindStep();
+        snes.setPixels(imageData.data);
+        ctx.putImageData(imageData, 0, 0);
+        return;
+      }
+
+      // Hold still until the server's state arrives after a rewind
+      if (awaitingStateSync) return;
+
       // If MCP tools already advanced the emulator, skip this game loop frame
       if (mcpSkipFrames > 0) {
         mcpSkipFrames--;
@@ -939,6 +1136,7 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
           // No MCP command, just run normal game frame
           runOneFrameWithAudio();
         }
+        recordRewindSnapshot();
       }
 
       // Copy PPU internal pixel buffer into canvas imageData
@@ -961,10 +1159,10 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
 
     var syncWs = null; // set by connectWs()
 
-    function sendButtonToServer(btnId, durationFrames) {
+    function sendButtonToServer(btnId, durationFrames, player) {
       var name = btnIdToName[btnId];
       if (name && syncWs && syncWs.readyState === WebSocket.OPEN) {
-        syncWs.send(JSON.stringify({ type: 'button_press', button: name, durationFrames: durationFrames }));
+        syncWs.send(JSON.stringify({ type: 'button_press', button: name, durationFrames: durationFrames, player: player || 1 }));
       }
     }
 
@@ -994,6 +1192,21 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
 
     var keyDownTime = {};  // btnId -> timestamp when key was pressed
 
+    // Player 2: TFGH=D-pad, V=B, B=A, C=Y, D=X, E=L, R=R, 2=Start, 1=Select
+    var keyMap2 = {
+      't': BTN.UP, 'T': BTN.UP, 'g': BTN.DOWN, 'G': BTN.DOWN,
+      'f': BTN.LEFT, 'F': BTN.LEFT, 'h': BTN.RIGHT, 'H': BTN.RIGHT,
+      'v': BTN.B, 'V': BTN.B,
+      'b': BTN.A, 'B': BTN.A,
+      'c': BTN.Y, 'C': BTN.Y,
+      'd': BTN.X, 'D': BTN.X,
+      'e': BTN.L, 'E': BTN.L,
+      'r': BTN.R, 'R': BTN.R,
+      '2': BTN.START,
+      '1': BTN.SELECT
+    };
+    var keyDownTime2 = {};  // btnId -> timestamp when a player 2 key was pressed
+
     document.addEventListener('keydown', function(e) {
       if (e.target.tagName === 'INPUT') return;
       var btn = keyMap[e.key];
@@ -1008,8 +1221,22 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
         var el = document.getElementById(keyBtnMap[e.key]);
         if (el) el.classList.add('pressed');
       }
+      var btn2 = keyMap2[e.key];
+      if (btn2 !== undefined) {
+        e.preventDefault();
+        resumeAudio();
+        snes.setPad2ButtonPressed(btn2);
+        if (keyDownTime2[btn2] === undefined) {
+          keyDownTime2[btn2] = performance.now();
+        }
+      }
       if (e.key === 'p' || e.key === 'P') togglePause();
       if (e.key === 'm' || e.key === 'M') toggleSound();
+      if (e.key === 'Backspace') {
+        e.preventDefault();
+        if (!rewindHeld) rewindFromFrame = snes.frames;
+        rewindHeld = true;
+      }
     });
 
     document.addEventListener('keyup', function(e) {
@@ -1028,6 +1255,23 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
         var el = document.getElementById(keyBtnMap[e.key]);
         if (el && !mcpHoldCount[btn]) el.classList.remove('pressed');
       }
+      var btn2 = keyMap2[e.key];
+      if (btn2 !== undefined) {
+        var held2 = keyDownTime2[btn2] !== undefined ? performance.now() - keyDownTime2[btn2] : 0;
+        delete keyDownTime2[btn2];
+        sendButtonToServer(btn2, Math.max(1, Math.round(held2 / (1000 / 60))), 2);
+        snes.setPad2ButtonReleased(btn2);
+      }
+      if (e.key === 'Backspace' && rewindHeld) {
+        rewindHeld = false;
+        var rewound = rewindFromFrame - snes.frames;
+        if (rewound > 0 && syncWs && syncWs.readyState === WebSocket.OPEN) {
+          syncWs.send(JSON.stringify({ type: 'rewind', frames: rewound }));
+          awaitingStateSync = true;
+          // Don't stay frozen if the server never answers
+          setTimeout(function() { awaitingStateSync = false; }, 2000);
+        }
+      }
     });
 
     // ─── Controller Input (on-screen buttons) ────────────────
@@ -1239,12 +1483,21 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
           mcpCommandQueue.push({
             type: 'button_press',
             button: msg.button,
+            buttons: msg.buttons,
             durationFrames: frames,
+            player: msg.player || 1,
             id: ++mcpLastCommandId
           });
         }
 
-        if (msg.type === 'button_press' && msg.source === 'browser') {
+        if (msg.type === 'button_press' && msg.source === 'browser' && msg.player === 2) {
+          var p2BtnId = wsBtnNameToId[msg.button];
+          if (p2BtnId === undefined) return;
+          snes.setPad2ButtonPressed(p2BtnId);
+          setTimeout(function() {
+            if (keyDownTime2[p2BtnId] === undefined) snes.setPad2ButtonReleased(p2BtnId);
+          }, msg.durationFrames * (1000 / 60));
+        } else if (msg.type === 'button_press' && msg.source === 'browser') {
           var btnId = wsBtnNameToId[msg.button];
           if (btnId === undefined) return;
           var domId = wsBtnNameToDom[msg.button];
@@ -1290,6 +1543,19 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
         if (msg.type === 'rom_loaded') {
           loadROM(msg.initialFrames || 0);
         }
+
+        if (msg.type === 'cheats_changed') {
+          loadCheats();
+        }
+
+        if (msg.type === 'state_sync' && msg.state && running) {
+          // The server rewound: its state supersedes ours and any queued
+          // commands, which it has already run
+          dropMcpCommands();
+          snes.loadState(msg.state);
+          rewindSnapshots = [];
+          awaitingStateSync = false;
+        }
       };
       ws.onclose = function() { syncWs = null; setTimeout(connectWs, 2000); };
       ws.onerror = function() { ws.close(); };
@@ -1306,13 +1572,16 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
   // ─── Server-side API routes (for MCP tools and fallback) ───
 
   const screenHandler: RequestHandler = (req, res) => {
+    const options = parseScreenshotQuery(req.query);
     if (!emulatorService.isRomLoaded()) {
       res.status(400).send('No ROM loaded');
+    } else if (typeof options === 'string') {
+      res.status(400).send(options);
     } else {
       try {
-        const screen = emulatorService.getScreen();
+        const screen = emulatorService.getScreen(options);
         const screenBuffer = Buffer.from(screen.data, 'base64');
-        res.setHeader('Content-Type', 'image/png');
+        res.setHeader('Content-Type', screen.mimeType);
         res.send(screenBuffer);
       } catch (error) {
         log.error('Error getting screen:', error);
@@ -1323,13 +1592,16 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
   app.get('/screen', screenHandler);
 
   const advanceAndGetScreenHandler: RequestHandler = (req, res) => {
+    const options = parseScreenshotQuery(req.query);
     if (!emulatorService.isRomLoaded()) {
       res.status(400).send('No ROM loaded');
+    } else if (typeof options === 'string') {
+      res.status(400).send(options);
     } else {
       try {
-        const screen = emulatorService.advanceFrameAndGetScreen();
+        const screen = emulatorService.advanceFrameAndGetScreen(options);
         const screenBuffer = Buffer.from(screen.data, 'base64');
-        res.setHeader('Content-Type', 'image/png');
+        res.setHeader('Content-Type', screen.mimeType);
         res.send(screenBuffer);
       } catch (error) {
         log.error('Error advancing frame and getting screen:', error);
@@ -1353,19 +1625,51 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
       return;
     }
 
+    // Same checks as the MCP tools' screenshot parameter
+    const parsedScreenshot = screenshotOptionsSchema.optional().safeParse(params?.screenshot);
+    if (!parsedScreenshot.success) {
+      const reason = parsedScreenshot.error.issues.map(issue => `${issue.path.join('.') || 'screenshot'}: ${issue.message}`).join('; ');
+      res.status(400).json({ error: `Invalid screenshot options: ${reason}` });
+      return;
+    }
+    const screenshot: ScreenshotOptions | undefined = parsedScreenshot.data;
+
     try {
       let result: any;
 
       switch (tool) {
         case 'get_screen':
-          result = emulatorService.getScreen();
+          result = emulatorService.getScreen(screenshot);
           break;
         case 'load_rom':
           if (!params || !params.romPath) {
             res.status(400).json({ error: 'ROM path is required' });
             return;
           }
-          result = emulatorService.loadRom(params.romPath);
+          result = emulatorService.loadRom(params.romPath, params.patchPath);
+          break;
+        case 'press_buttons':
+          const buttons_combo = params?.buttons;
+          const duration_frames_combo = params?.duration_frames ?? 25;
+          const player_combo = params?.player ?? 1;
+          if (!Array.isArray(buttons_combo) || buttons_combo.length === 0 ||
+              !buttons_combo.every((b: unknown) => (Object.values(SNESButton) as unknown[]).includes(b))) {
+            res.status(400).json({ error: 'Invalid buttons' });
+            return;
+          }
+          if (typeof duration_frames_combo !== 'number' || duration_frames_combo <= 0) {
+            res.status(400).json({ error: 'Invalid duration_frames for press_buttons' });
+            return;
+          }
+          if (player_combo !== 1 && player_combo !== 2) {
+            res.status(400).json({ error: 'Invalid player for press_buttons' });
+            return;
+          }
+          await emulatorService.pressButtonsAsync(buttons_combo, duration_frames_combo, player_combo);
+          result = (params?.include_screenshot ?? true) ? emulatorService.getScreen(screenshot) : {
+            type: 'text',
+            text: JSON.stringify({ buttons: buttons_combo, frames: duration_frames_combo, player: player_combo })
+          };
           break;
         case 'wait_frames':
           const duration_frames_wait = params?.duration_frames ?? 100;
@@ -1375,7 +1679,7 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
             return;
           }
           await emulatorService.waitFramesAsync(duration_frames_wait);
-          result = include_screenshot_wait ? emulatorService.getScreen() : {
+          result = include_screenshot_wait ? emulatorService.getScreen(screenshot) : {
             type: 'text',
             text: JSON.stringify({ waited_frames: duration_frames_wait })
           };
@@ -1389,14 +1693,19 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
             }
             const duration_frames_press = params?.duration_frames ?? 25;
             const include_screenshot_press = params?.include_screenshot ?? true;
+            const player_press = params?.player ?? 1;
             if (typeof duration_frames_press !== 'number' || duration_frames_press <= 0) {
               res.status(400).json({ error: 'Invalid duration_frames for press' });
               return;
             }
-            await emulatorService.pressButtonAsync(buttonName as SNESButton, duration_frames_press);
-            result = include_screenshot_press ? emulatorService.getScreen() : {
+            if (player_press !== 1 && player_press !== 2) {
+              res.status(400).json({ error: 'Invalid player for press' });
+              return;
+            }
+            await emulatorService.pressButtonAsync(buttonName as SNESButton, duration_frames_press, player_press);
+            result = include_screenshot_press ? emulatorService.getScreen(screenshot) : {
               type: 'text',
-              text: JSON.stringify({ button: buttonName, frames: duration_frames_press })
+              text: JSON.stringify({ button: buttonName, frames: duration_frames_press, player: player_press })
             };
           } else {
             res.status(400).json({ error: `Unknown tool: ${tool}` });
@@ -1420,12 +1729,8 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
       if (!fs.existsSync(romsDir)) {
         fs.mkdirSync(romsDir);
       }
-      const romFiles = fs.readdirSync(romsDir)
-        .filter(file => file.endsWith('.smc') || file.endsWith('.sfc'))
-        .map(file => ({
-          name: file,
-          path: path.join(romsDir, file)
-        }));
+      const romFiles = listRomFiles(romsDir, (file, error) => log.warn(`Skipping unreadable zip ${file}`, String(error)))
+        .map(rom => ({ ...rom, dat: emulatorService.identifyRom(rom.path) }));
       res.json(romFiles);
     } catch (error) {
       log.error('Error getting ROM list:', error);
@@ -1433,6 +1738,57 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
     }
   });
 
+  app.get('/api/cpu', (req: Request, res: Response) => {
+    if (!emulatorService.isRomLoaded()) {
+      res.status(400).json({ error: 'No ROM loaded' });
+      return;
+    }
+    try {
+      res.json(emulatorService.getCpuState());
+    } catch (error) {
+      log.error('Error getting CPU state:', error);
+      res.status(500).json({ error: 'Failed to get CPU state' });
+    }
+  });
+
+  app.get('/api/rom-info', (req: Request, res: Response) => {
+    if (!emulatorService.isRomLoaded()) {
+      res.status(400).json({ error: 'No ROM loaded' });
+      return;
+    }
+    try {
+      res.json(emulatorService.getRomInfo());
+    } catch (error) {
+      log.error('Error getting ROM info:', error);
+      res.status(500).json({ error: 'Failed to get ROM info' });
+    }
+  });
+
+  app.get('/api/disassemble', (req: Request, res: Response) => {
+    if (!emulatorService.isRomLoaded()) {
+      res.status(400).send('No ROM loaded');
+      return;
+    }
+    try {
+      const address = req.query.address !== undefined ? parseInt(req.query.address as string, 16) : undefined;
+      const count = req.query.count !== undefined ? parseInt(req.query.count as string, 10) : 16;
+      if ((address !== undefined && isNaN(address)) || isNaN(count) || count < 1 || count > 256) {
+        res.status(400).send('Invalid address or count');
+        return;
+      }
+      const aroundPc = req.query.around_pc === '1' || req.query.around_pc === 'true';
+      res.setHeader('Content-Type', 'text/plain');
+      res.send(emulatorService.disassemble(address, count, aroundPc));
+    } catch (error) {
+      log.error('Error disassembling:', error);
+      res.status(500).send('Error disassembling');
+    }
+  });
+
+  app.get('/api/cheats', (req: Request, res: Response) => {
+    res.json(emulatorService.isRomLoaded() ? emulatorService.getCheats() : []);
+  });
+
   app.get('/api/status', (req: Request, res: Response) => {
     try {
       const romLoaded = emulatorService.isRomLoaded();
@@ -1448,6 +1804,20 @@ export function setupWebUI(app: express.Application, emulatorService: EmulatorSe
   });
 }
 
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+// Short picker-card label for a DAT match
+function datLabel(dat: RomIdentification): string {
+  switch (dat.status) {
+    case 'unknown': return 'UNKNOWN DUMP';
+    case 'bad_dump': return 'BAD DUMP';
+    default: return escapeHtml([dat.status === 'verified' ? 'VERIFIED' : 'GOOD', dat.region, dat.revision]
+      .filter(Boolean).join(' · ').toUpperCase());
+  }
+}
+
 export function setupRomSelectionUI(app: express.Application, emulatorService: EmulatorService): void {
 
   // Serve cover art images from covers/ directory
@@ -1470,20 +1840,20 @@ export function setupRomSelectionUI(app: express.Application, emulatorService: E
 
   app.get('/', (req: Request, res: Response) => {
     const romsDir = path.join(process.cwd(), 'roms');
-    let romFiles: { name: string; path: string; displayName: string; cover: string | null }[] = [];
+    let romFiles: { name: string; path: string; displayName: string; cover: string | null; dat?: RomIdentification }[] = [];
     try {
       if (!fs.existsSync(romsDir)) {
         fs.mkdirSync(romsDir);
       }
-      romFiles = fs.readdirSync(romsDir)
-        .filter(file => file.endsWith('.smc') || file.endsWith('.sfc'))
-        .map(file => {
-          const displayName = file.replace(/\.(smc|sfc)$/i, '');
+      romFiles = listRomFiles(romsDir, (file, error) => log.warn(`Skipping unreadable zip ${file}`, String(error)))
+        .map(rom => {
+          const displayName = romBaseName(rom.path);
           return {
-            name: file,
-            path: path.join('roms', file),
+            name: rom.name,
+            path: path.join('roms', rom.name),
             displayName,
-            cover: findCover(displayName)
+            cover: findCover(displayName),
+            dat: emulatorService.identifyRom(rom.path)
           };
         });
     } catch (error) {
@@ -1684,6 +2054,22 @@ export function setupRomSelectionUI(app: express.Application, emulatorService: E
       white-space: nowrap;
     }
 
+    /* DAT match below the ROM name */
+    .cart-dat {
+      margin-top: 8px;
+      font-size: 5px;
+      letter-spacing: 1px;
+      text-align: center;
+      max-width: 220px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .cart-dat.verified { color: #6c6; }
+    .cart-dat.good { color: #9a9; }
+    .cart-dat.bad_dump { color: #e66; }
+    .cart-dat.unknown { color: #db5; }
+
     /* No ROMs message */
     .no-roms {
       text-align: center; font-size: 8px; color: #666;
@@ -1746,16 +2132,17 @@ export function setupRomSelectionUI(app: express.Application, emulatorService: E
               <div class="screw-right"></div>
             </div>
           </div>
-          <div class="cart-name">${rom.displayName}</div>
+          <div class="cart-name" title="${escapeHtml(rom.name)}">${rom.dat?.canonicalName ? escapeHtml(rom.dat.canonicalName) : rom.displayName}</div>
+          ${rom.dat ? `<div class="cart-dat ${rom.dat.status}" title="${rom.dat.dat ? escapeHtml(rom.dat.dat) : `CRC32 ${rom.dat.crc32}`}">${datLabel(rom.dat)}</div>` : ''}
         </div>`).join('')
-      : '<p class="no-roms">No ROM files found.<br><br>Upload a .smc or .sfc file below.</p>'
+      : '<p class="no-roms">No ROM files found.<br><br>Upload a .smc, .sfc, .zip or .sfc.gz file below.</p>'
     }
   </div>
 
   <div class="upload-area">
     <form action="/upload" method="post" enctype="multipart/form-data">
       <span class="upload-label">UPLOAD ROM</span>
-      <input type="file" name="rom" accept=".smc,.sfc" required />
+      <input type="file" name="rom" accept=".smc,.sfc,.zip,.gz" required />
       <button type="submit" class="upload-btn">INSERT</button>
     </form>
   </div>
@@ -0,0 +1,364 @@
+/**
+ * Lossless WebP (VP8L) encoder for screenshots. A screen with at most 256
+ * colors (nearly every SNES frame) is stored as a palette with several
+ * pixels bundled per value, and runs and repeated rows become LZ77
+ * back-references, so the result is usually smaller than the PNG.
+ */
+
+const MAX_LENGTH_CODE_BITS = 15;
+const MAX_CODE_LENGTH_CODE_BITS = 7;
+const GREEN_ALPHABET = 256 + 24;  // literals + length prefixes (no color cache)
+const DISTANCE_ALPHABET = 40;
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+const MIN_MATCH = 3;
+const MAX_MATCH = 4096;
+
+/**
+ * Writes values LSB-first, as VP8L reads them
+ */
+class BitWriter {
+  private bytes = new Uint8Array(4096);
+  private length = 0;
+  private buffer = 0;
+  private count = 0;
+
+  write(value: number, bits: number): void {
+    this.buffer |= value << this.count;
+    this.count += bits;
+    while (this.count >= 8) {
+      if (this.length === this.bytes.length) {
+        const grown = new Uint8Array(this.bytes.length * 2);
+        grown.set(this.bytes);
+        this.bytes = grown;
+      }
+      this.bytes[this.length++] = this.buffer & 0xFF;
+      this.buffer >>>= 8;
+      this.count -= 8;
+    }
+  }
+
+  finish(): Buffer {
+    if (this.count > 0) {
+      this.write(0, 8 - this.count);
+    }
+    return Buffer.from(this.bytes.subarray(0, this.length));
+  }
+}
+
+// Codes to write per symbol, bit-reversed since VP8L reads codes MSB first
+interface PrefixCode {
+  codes: number[];
+  bits: number[];
+}
+
+/**
+ * Huffman code lengths for the given symbol counts, limited to maxBits by
+ * flattening small counts until the tree is shallow enough
+ */
+function codeLengths(counts: number[], maxBits: number): number[] {
+  const lengths = new Array<number>(counts.length).fill(0);
+  const used = counts.map((count, symbol) => ({ count, symbol })).filter(s => s.count > 0);
+  if (used.length === 1) {
+    lengths[used[0].symbol] = 1;
+  }
+  if (used.length < 2) {
+    return lengths;
+  }
+
+  for (let minCount = 1; ; minCount *= 2) {
+    type Node = { weight: number; symbol?: number; children?: [Node, Node] };
+    let nodes: Node[] = used.map(s => ({ weight: Math.max(s.count, minCount), symbol: s.symbol }));
+    while (nodes.length > 1) {
+      nodes.sort((a, b) => a.weight - b.weight);
+      const [a, b] = nodes;
+      nodes = [{ weight: a.weight + b.weight, children: [a, b] }, ...nodes.slice(2)];
+    }
+
+    let maxDepth = 0;
+    const walk = (node: Node, depth: number) => {
+      if (node.children) {
+        walk(node.children[0], depth + 1);
+        walk(node.children[1], depth + 1);
+      } else {
+        lengths[node.symbol!] = depth;
+        maxDepth = Math.max(maxDepth, depth);
+      }
+    };
+    walk(nodes[0], 0);
+    if (maxDepth <= maxBits) {
+      return lengths;
+    }
+  }
+}
+
+/**
+ * Canonical codes for a set of code lengths. A lone symbol is read with
+ * zero bits, whatever its declared length.
+ */
+function canonicalCode(lengths: number[]): PrefixCode {
+  const codes = new Array<number>(lengths.length).fill(0);
+  const bits = lengths.slice();
+  if (lengths.filter(length => length > 0).length === 1) {
+    return { codes, bits: bits.map(() => 0) };
+  }
+
+  const lengthCounts = new Array<number>(MAX_LENGTH_CODE_BITS + 1).fill(0);
+  lengths.forEach(length => { if (length > 0) lengthCounts[length]++; });
+  const next = new Array<number>(MAX_LENGTH_CODE_BITS + 1).fill(0);
+  for (let length = 1, code = 0; length <= MAX_LENGTH_CODE_BITS; length++) {
+    code = (code + lengthCounts[length - 1]) << 1;
+    next[length] = code;
+  }
+  lengths.forEach((length, symbol) => {
+    if (length === 0) return;
+    let code = next[length]++;
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed = (reversed << 1) | (code & 1);
+      code >>= 1;
+    }
+    codes[symbol] = reversed;
+  });
+  return { codes, bits };
+}
+
+/**
+ * Write a prefix code for the given symbol counts and return it for coding
+ */
+function writePrefixCode(writer: BitWriter, counts: number[]): PrefixCode {
+  const used = counts.map((count, symbol) => count > 0 ? symbol : -1).filter(symbol => symbol >= 0);
+
+  // Simple code: one or two symbols below 256
+  if (used.length <= 2 && used.every(symbol => symbol < 256)) {
+    const symbols = used.length > 0 ? used : [0];
+    writer.write(1, 1);
+    writer.write(symbols.length - 1, 1);
+    if (symbols[0] < 2) {
+      writer.write(0, 1);
+      writer.write(symbols[0], 1);
+    } else {
+      writer.write(1, 1);
+      writer.write(symbols[0], 8);
+    }
+    const codes = new Array<number>(counts.length).fill(0);
+    const bits = new Array<number>(counts.length).fill(0);
+    if (symbols.length === 2) {
+      writer.write(symbols[1], 8);
+      codes[symbols[1]] = 1;
+      bits[symbols[0]] = bits[symbols[1]] = 1;
+    }
+    return { codes, bits };
+  }
+
+  // Normal code: code lengths, run-length coded with a code of their own
+  const lengths = codeLengths(counts, MAX_LENGTH_CODE_BITS);
+  const tokens: Array<[number, number]> = [];  // [code length symbol, repeat extra]
+  for (let i = 0; i < lengths.length;) {
+    let run = 1;
+    while (lengths[i] === 0 && i + run < lengths.length && lengths[i + run] === 0 && run < 138) run++;
+    if (lengths[i] === 0 && run >= 11) {
+      tokens.push([18, run - 11]);
+    } else if (lengths[i] === 0 && run >= 3) {
+      tokens.push([17, run - 3]);
+    } else {
+      run = 1;
+      tokens.push([lengths[i], 0]);
+    }
+    i += run;
+  }
+
+  const lengthCounts = new Array<number>(19).fill(0);
+  tokens.forEach(([symbol]) => lengthCounts[symbol]++);
+  const lengthLengths = codeLengths(lengthCounts, MAX_CODE_LENGTH_CODE_BITS);
+  let written = CODE_LENGTH_ORDER.length;
+  while (written > 4 && lengthLengths[CODE_LENGTH_ORDER[written - 1]] === 0) written--;
+
+  writer.write(0, 1);
+  writer.write(written - 4, 4);
+  for (let i = 0; i < written; i++) {
+    writer.write(lengthLengths[CODE_LENGTH_ORDER[i]], 3);
+  }
+  writer.write(0, 1);  // lengths for the whole alphabet follow
+  const lengthCode = canonicalCode(lengthLengths);
+  for (const [symbol, extra] of tokens) {
+    writer.write(lengthCode.codes[symbol], lengthCode.bits[symbol]);
+    if (symbol === 17) writer.write(extra, 3);
+    if (symbol === 18) writer.write(extra, 7);
+  }
+  return canonicalCode(lengths);
+}
+
+/**
+ * Split a length or distance into its prefix symbol and extra bits
+ */
+function prefixEncode(value: number): { symbol: number; extraBits: number; extra: number } {
+  const v = value - 1;
+  if (v < 4) {
+    return { symbol: v, extraBits: 0, extra: 0 };
+  }
+  const high = 31 - Math.clz32(v);
+  const second = (v >> (high - 1)) & 1;
+  return { symbol: 2 * high + second, extraBits: high - 1, extra: v & ((1 << (high - 1)) - 1) };
+}
+
+/**
+ * Write ARGB pixels as an entropy-coded image: greedy LZ77 against the
+ * previous pixel, the pixel above and the last place the next three
+ * pixels were seen, then one group of prefix codes
+ * @param main Whether this is the main image (which may carry meta prefix codes)
+ */
+function writeImageData(writer: BitWriter, pixels: Uint32Array, width: number, main: boolean): void {
+  const lengths: number[] = [];  // 0 for a literal pixel
+  const values: number[] = [];   // the pixel, or the distance code of a copy
+  const hashTable = new Int32Array(1 << 16).fill(-1);
+  const hash = (i: number) =>
+    (Math.imul(pixels[i], 0x1E35A7BD) ^ Math.imul(pixels[i + 1], 0x9E3779B1) ^ pixels[i + 2]) >>> 16;
+
+  for (let i = 0; i < pixels.length;) {
+    let bestLength = 0;
+    let bestFrom = 0;
+    const hashed = i + 2 < pixels.length ? hashTable[hash(i)] : -1;
+    for (const from of [i - 1, i - width, hashed]) {
+      if (from < 0 || from >= i) continue;
+      let length = 0;
+      while (i + length < pixels.length && length < MAX_MATCH && pixels[from + length] === pixels[i + length]) length++;
+      if (length > bestLength) {
+        bestLength = length;
+        bestFrom = from;
+      }
+    }
+
+    const step = bestLength >= MIN_MATCH ? bestLength : 1;
+    if (step > 1) {
+      const distance = i - bestFrom;
+      // Codes 1 and 2 are the pixel above and to the left; others are offset by 120
+      lengths.push(bestLength);
+      values.push(distance === width ? 1 : distance === 1 ? 2 : distance + 120);
+    } else {
+      lengths.push(0);
+      values.push(pixels[i]);
+    }
+    for (let j = i; j < i + step; j++) {
+      if (j + 2 < pixels.length) hashTable[hash(j)] = j;
+    }
+    i += step;
+  }
+
+  const green = new Array<number>(GREEN_ALPHABET).fill(0);
+  const red = new Array<number>(256).fill(0);
+  const blue = new Array<number>(256).fill(0);
+  const alpha = new Array<number>(256).fill(0);
+  const distance = new Array<number>(DISTANCE_ALPHABET).fill(0);
+  lengths.forEach((length, i) => {
+    const value = values[i];
+    if (length === 0) {
+      green[(value >>> 8) & 0xFF]++;
+      red[(value >>> 16) & 0xFF]++;
+      blue[value & 0xFF]++;
+      alpha[value >>> 24]++;
+    } else {
+      green[256 + prefixEncode(length).symbol]++;
+      distance[prefixEncode(value).symbol]++;
+    }
+  });
+
+  writer.write(0, 1);  // no color cache
+  if (main) {
+    writer.write(0, 1);  // one group of prefix codes for the whole image
+  }
+  const codes = [green, red, blue, alpha, distance].map(counts => writePrefixCode(writer, counts));
+  const [greenCode, redCode, blueCode, alphaCode, distanceCode] = codes;
+  const put = (code: PrefixCode, symbol: number) => writer.write(code.codes[symbol], code.bits[symbol]);
+
+  lengths.forEach((length, i) => {
+    const value = values[i];
+    if (length === 0) {
+      put(greenCode, (value >>> 8) & 0xFF);
+      put(redCode, (value >>> 16) & 0xFF);
+      put(blueCode, value & 0xFF);
+      put(alphaCode, value >>> 24);
+    } else {
+      const lengthPrefix = prefixEncode(length);
+      put(greenCode, 256 + lengthPrefix.symbol);
+      writer.write(lengthPrefix.extra, lengthPrefix.extraBits);
+      const distancePrefix = prefixEncode(value);
+      put(distanceCode, distancePrefix.symbol);
+      writer.write(distancePrefix.extra, distancePrefix.extraBits);
+    }
+  });
+}
+
+/**
+ * Encode RGBA pixels as a lossless WebP (alpha is ignored; the image is opaque)
+ */
+export function encodeWebp(rgba: Uint8Array | Uint8ClampedArray, width: number, height: number): Buffer {
+  const argb = new Uint32Array(width * height);
+  for (let i = 0; i < argb.length; i++) {
+    argb[i] = (0xFF000000 | (rgba[i * 4] << 16) | (rgba[i * 4 + 1] << 8) | rgba[i * 4 + 2]) >>> 0;
+  }
+
+  const palette = new Map<number, number>();
+  for (let i = 0; i < argb.length && palette.size <= 256; i++) {
+    if (!palette.has(argb[i])) palette.set(argb[i], palette.size);
+  }
+
+  const writer = new BitWriter();
+  writer.write(0x2F, 8);
+  writer.write(width - 1, 14);
+  writer.write(height - 1, 14);
+  writer.write(0, 1);  // alpha not used
+  writer.write(0, 3);  // version
+
+  let pixels: Uint32Array;
+  let imageWidth = width;
+  if (palette.size <= 256) {
+    // Color indexing transform; the table is stored delta-coded
+    writer.write(1, 1);
+    writer.write(3, 2);
+    writer.write(palette.size - 1, 8);
+    const colors = Array.from(palette.keys());
+    const deltas = new Uint32Array(colors.length);
+    colors.forEach((color, i) => {
+      const previous = i > 0 ? colors[i - 1] : 0;
+      let delta = 0;
+      for (let shift = 0; shift < 32; shift += 8) {
+        delta |= (((color >>> shift) - (previous >>> shift)) & 0xFF) << shift;
+      }
+      deltas[i] = delta >>> 0;
+    });
+    writeImageData(writer, deltas, colors.length, false);
+
+    // Bundle 8, 4 or 2 pixels per value when the palette is small enough
+    const widthBits = palette.size <= 2 ? 3 : palette.size <= 4 ? 2 : palette.size <= 16 ? 1 : 0;
+    const bitsPerPixel = 8 >> widthBits;
+    imageWidth = Math.ceil(width / (1 << widthBits));
+    const packed = new Uint32Array(imageWidth * height);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = palette.get(argb[y * width + x])!;
+        packed[y * imageWidth + (x >> widthBits)] |= index << ((x & ((1 << widthBits) - 1)) * bitsPerPixel);
+      }
+    }
+    pixels = packed.map(value => (0xFF000000 | (value << 8)) >>> 0);
+  } else {
+    // Subtract-green transform: red and blue are stored relative to green
+    writer.write(1, 1);
+    writer.write(2, 2);
+    pixels = argb.map(value => {
+      const g = (value >>> 8) & 0xFF;
+      return ((value & 0xFF00FF00) | ((((value >>> 16) - g) & 0xFF) << 16) | (((value & 0xFF) - g) & 0xFF)) >>> 0;
+    });
+  }
+  writer.write(0, 1);  // no more transforms
+  writeImageData(writer, pixels, imageWidth, true);
+
+  const data = writer.finish();
+  const padding = data.length & 1;
+  const out = Buffer.alloc(20 + data.length + padding);
+  out.write('RIFF', 0, 'ascii');
+  out.writeUInt32LE(12 + data.length + padding, 4);
+  out.write('WEBPVP8L', 8, 'ascii');
+  out.writeUInt32LE(data.length, 16);
+  data.copy(out, 20);
+  return out;
+}
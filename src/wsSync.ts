@@ -2,7 +2,7 @@ import { WebSocketServer, WebSocket } from 'ws';
 import http from 'http';
 import { log } from './utils/logger';
 import type { EmulatorService } from './emulatorService';
-import { SNESButton } from './types';
+import { SNESButton, SNESPlayer } from './types';
 
 const VALID_BUTTONS = new Set(Object.values(SNESButton));
 
@@ -36,37 +36,56 @@ export class WsSync {
       const button = msg.button as SNESButton;
       const durationFrames = typeof msg.durationFrames === 'number' && msg.durationFrames > 0
         ? msg.durationFrames : 25;
+      const player: SNESPlayer = msg.player === 2 ? 2 : 1;
 
       // Replay on server-side emulator
       if (this.emulatorService?.isRomLoaded()) {
         try {
-          this.emulatorService.pressButtonLocal(button, durationFrames);
+          this.emulatorService.pressButtonLocal(button, durationFrames, player);
         } catch (e) {
           log.warn('Failed to replay browser button press on server', String(e));
         }
       }
 
       // Broadcast to all OTHER browser clients (not back to sender)
-      const outMsg = JSON.stringify({ type: 'button_press', button, durationFrames, source: 'browser' });
+      const outMsg = JSON.stringify({ type: 'button_press', button, durationFrames, player, source: 'browser' });
       for (const client of this.wss.clients) {
         if (client !== sender && client.readyState === WebSocket.OPEN) {
           client.send(outMsg);
         }
       }
+    } else if (msg.type === 'rewind' && typeof msg.frames === 'number' && msg.frames > 0) {
+      // Browser rewound locally (hold Backspace); the server rewinds the same
+      // number of frames and every browser then loads the server's state
+      const emulatorService = this.emulatorService;
+      if (!emulatorService?.isRomLoaded()) return;
+      emulatorService.rewindAsync(Math.floor(msg.frames)).catch((e) => {
+        log.warn('Failed to rewind server for browser', String(e));
+        emulatorService.syncBrowserState();
+      });
     }
   }
 
   /**
    * Broadcast commands for frame-by-frame consumption by browser
    */
-  broadcastButtonPress(button: string, durationFrames: number): void {
+  broadcastButtonPress(button: string, durationFrames: number, player: SNESPlayer = 1): void {
+    this.broadcastButtonsPress([button], durationFrames, player);
+  }
+
+  /**
+   * Broadcast several buttons held together for the same frames
+   */
+  broadcastButtonsPress(buttons: string[], durationFrames: number, player: SNESPlayer = 1): void {
     this.lastBroadcastCommandId++;
     const msg = JSON.stringify({ 
       type: 'command_queue', 
       command: {
         type: 'button_press',
-        button,
+        button: buttons[0],
+        buttons,
         durationFrames,
+        player,
         id: this.lastBroadcastCommandId
       },
       source: 'mcp'
@@ -114,6 +133,27 @@ export class WsSync {
     }
   }
 
+  broadcastCheatsChanged(): void {
+    const msg = JSON.stringify({ type: 'cheats_changed' });
+    for (const client of this.wss.clients) {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(msg);
+      }
+    }
+  }
+
+  /**
+   * Send a full emulator state for browsers to load
+   */
+  broadcastState(state: object): void {
+    const msg = JSON.stringify({ type: 'state_sync', state });
+    for (const client of this.wss.clients) {
+      if (client.readyState === WebSocket.OPEN) {
+        client.send(msg);
+      }
+    }
+  }
+
   broadcastRomLoaded(initialFrames: number = 0): void {
     const msg = JSON.stringify({ type: 'rom_loaded', initialFrames });
     for (const client of this.wss.clients) {